@@ -0,0 +1,136 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { z } from "zod";
+import { createScoreStore } from "./store";
+import { verifySubmission } from "./verify";
+
+// Stand-in for the online leaderboard, implementing the REST contract in src/lib/leaderboardApi.ts
+// with everything held in memory. Every submission's replay is re-simulated before it is accepted.
+// Run with `npm run server`; Vite proxies /api to it.
+
+const PORT = Number(process.env.PORT) || 8787;
+// Bodies carry a whole replay, but even long runs stay well under this
+const MAX_BODY = 1024 * 1024;
+
+const modeSchema = z.enum(["endless", "daily", "campaign"]);
+const difficultySchema = z.enum(["easy", "normal", "hard"]);
+const periodSchema = z.enum(["day", "week", "all"]);
+
+const replaySchema = z.object({
+  version: z.number().int(),
+  mode: modeSchema,
+  difficulty: difficultySchema,
+  seed: z.number().int(),
+  levelId: z.string().optional(),
+  toggles: z.array(z.number().int().nonnegative()),
+  ticks: z.number().int().nonnegative(),
+  score: z.number().int().nonnegative(),
+  distance: z.number().int().nonnegative(),
+  timeAlive: z.number().int().nonnegative(),
+  collected: z.number().int().nonnegative(),
+  hits: z.number().int().nonnegative(),
+  completed: z.boolean(),
+  recordedAt: z.number()
+});
+
+const submissionSchema = z.object({
+  playerId: z.string().min(1).max(64),
+  name: z.string().trim().min(1).max(16),
+  mode: modeSchema,
+  difficulty: difficultySchema,
+  score: z.number().int().nonnegative(),
+  distance: z.number().int().nonnegative(),
+  timeAlive: z.number().int().nonnegative(),
+  practice: z.boolean().default(false),
+  replay: replaySchema
+});
+
+const querySchema = z.object({
+  mode: modeSchema,
+  difficulty: difficultySchema.default("normal"),
+  period: periodSchema.default("all"),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  range: z.coerce.number().int().min(0).max(25).default(3)
+});
+
+const store = createScoreStore();
+
+const describeIssue = (error: z.ZodError) => {
+  const [issue] = error.issues;
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type"
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  let body = "";
+  req.on("data", chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY) {
+      reject(new Error("Body too large"));
+      req.destroy();
+    }
+  });
+  req.on("end", () => resolve(body));
+  req.on("error", reject);
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const path = url.pathname.replace(/^\/api/, "");
+
+  if (req.method === "OPTIONS") {
+    send(res, 204, null);
+    return;
+  }
+
+  if (req.method === "POST" && path === "/scores") {
+    let json: unknown;
+    try {
+      json = JSON.parse(await readBody(req));
+    } catch {
+      send(res, 400, { error: "Body must be JSON", reason: "malformed" });
+      return;
+    }
+    const submission = submissionSchema.safeParse(json);
+    if (!submission.success) {
+      send(res, 400, { error: describeIssue(submission.error), reason: "malformed" });
+      return;
+    }
+    const verdict = verifySubmission(submission.data);
+    if (!verdict.ok) {
+      send(res, 422, { error: verdict.detail, reason: verdict.reason });
+      return;
+    }
+    send(res, 201, store.add(submission.data));
+    return;
+  }
+
+  if (req.method === "GET" && (path === "/scores" || path.startsWith("/scores/around/"))) {
+    const query = querySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!query.success) {
+      send(res, 400, { error: describeIssue(query.error), reason: "malformed" });
+      return;
+    }
+    const { mode, difficulty, period, limit, range } = query.data;
+    const entries = path === "/scores"
+      ? store.top({ mode, difficulty, period }, limit)
+      : store.around(decodeURIComponent(path.slice("/scores/around/".length)), { mode, difficulty, period }, range);
+    send(res, 200, { entries });
+    return;
+  }
+
+  send(res, 404, { error: "Not found" });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(error => send(res, 500, { error: String(error) }));
+}).listen(PORT, () => {
+  console.log(`Leaderboard stand-in listening on http://localhost:${PORT}/api`);
+});
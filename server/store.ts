@@ -0,0 +1,48 @@
+import type { LeaderboardPeriod, LeaderboardQuery, OnlineEntry, ScoreSubmission } from "@/lib/leaderboardApi";
+
+type StoredEntry = Omit<OnlineEntry, "rank"> & { practice: boolean };
+
+const PERIOD_LENGTH: Record<LeaderboardPeriod, number> = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  all: Infinity
+};
+
+// Every accepted submission, held in memory for as long as the server runs
+export const createScoreStore = () => {
+  const entries: StoredEntry[] = [];
+  let nextId = 1;
+
+  // Each player's best run for the query, best first. Practice runs are kept but never ranked.
+  const board = ({ mode, difficulty, period }: LeaderboardQuery, now = Date.now()): OnlineEntry[] => {
+    const best = new Map<string, StoredEntry>();
+    entries
+      .filter(entry => entry.mode === mode && entry.difficulty === difficulty && !entry.practice)
+      .filter(entry => now - entry.submittedAt <= PERIOD_LENGTH[period])
+      .forEach(entry => {
+        const current = best.get(entry.playerId);
+        if (!current || entry.score > current.score) best.set(entry.playerId, entry);
+      });
+    return [...best.values()]
+      .sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt)
+      .map((entry, i) => ({ ...entry, rank: i + 1 }));
+  };
+
+  return {
+    add: (submission: ScoreSubmission) => {
+      const { replay: _replay, ...fields } = submission;
+      const entry = { ...fields, practice: !!fields.practice, id: (nextId++).toString(36), submittedAt: Date.now() };
+      entries.push(entry);
+      const rank = board({ mode: entry.mode, difficulty: entry.difficulty, period: "all" }).findIndex(ranked => ranked.playerId === entry.playerId) + 1;
+      return { id: entry.id, rank };
+    },
+    top: (query: LeaderboardQuery, limit: number) => board(query).slice(0, limit),
+    around: (playerId: string, query: LeaderboardQuery, range: number) => {
+      const ranked = board(query);
+      const index = ranked.findIndex(entry => entry.playerId === playerId);
+      return index === -1 ? [] : ranked.slice(Math.max(0, index - range), index + range + 1);
+    }
+  };
+};
+
+export type ScoreStore = ReturnType<typeof createScoreStore>;
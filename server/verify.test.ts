@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "@/game/engine";
+import { createRecorder, type Replay } from "@/game/replay";
+import type { GameMode } from "@/game/types";
+import { getDailyKey, getDailySeed } from "@/lib/daily";
+import type { ScoreSubmission } from "@/lib/leaderboardApi";
+import { verifySubmission } from "./verify";
+
+const NOW = new Date(2026, 5, 15, 12).getTime();
+
+// A genuine run on `seed` that never flips, so it ends on the first obstacle
+const playRun = (mode: GameMode, seed: number): Replay => {
+  const recorder = createRecorder({ seed, mode, difficulty: "normal" });
+  let state = createGame({}, seed);
+  while (!state.over) {
+    state = step(state, { flip: false });
+    recorder.record(state.tick, { flip: false });
+  }
+  return recorder.finish(state);
+};
+
+const submit = (replay: Replay): ScoreSubmission => ({
+  playerId: "player",
+  name: "Tester",
+  mode: replay.mode,
+  difficulty: replay.difficulty,
+  score: replay.score,
+  distance: replay.distance,
+  timeAlive: replay.timeAlive,
+  replay
+});
+
+describe("verifySubmission", () => {
+  const daily = playRun("daily", getDailySeed(getDailyKey(new Date(NOW))));
+
+  it("accepts a genuine run", () => {
+    expect(verifySubmission(submit(daily), NOW)).toEqual({ ok: true });
+    expect(verifySubmission(submit(playRun("endless", 42)), NOW)).toEqual({ ok: true });
+  });
+
+  it("rejects a daily run on a seed of the player's choosing", () => {
+    expect(verifySubmission(submit(playRun("daily", 42)), NOW)).toMatchObject({ ok: false, reason: "seed" });
+  });
+
+  it("rejects a daily run from days ago", () => {
+    expect(verifySubmission(submit(daily), NOW + 3 * 24 * 60 * 60 * 1000)).toMatchObject({ ok: false, reason: "seed" });
+  });
+
+  it("rejects a run claimed for another difficulty", () => {
+    expect(verifySubmission({ ...submit(daily), difficulty: "hard" }, NOW)).toMatchObject({ ok: false, reason: "mode" });
+  });
+
+  it("rejects an inflated score", () => {
+    expect(verifySubmission({ ...submit(daily), score: daily.score + 10 }, NOW)).toMatchObject({ ok: false, reason: "score" });
+  });
+
+  it("rejects claimed orbs and hits the run didn't get", () => {
+    expect(verifySubmission(submit({ ...daily, collected: daily.collected + 1 }), NOW)).toMatchObject({ ok: false, reason: "result" });
+    expect(verifySubmission(submit({ ...daily, completed: true }), NOW)).toMatchObject({ ok: false, reason: "result" });
+  });
+});
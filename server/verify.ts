@@ -0,0 +1,76 @@
+import { getCampaignLevel } from "@/game/campaign";
+import { ENGINE_VERSION } from "@/game/engine";
+import { TICK_RATE } from "@/game/physics";
+import { createReplayPlayer } from "@/game/replay";
+import { getDailyKey, getDailySeed } from "@/lib/daily";
+import type { RejectionReason, ScoreSubmission } from "@/lib/leaderboardApi";
+
+// Runs longer than this aren't re-simulated, to keep one submission from tying up the server
+const MAX_TICKS = 30 * 60 * TICK_RATE;
+const DAY = 24 * 60 * 60 * 1000;
+
+// The daily challenge follows the player's own calendar, which can be a day either side of ours
+const getDailySeeds = (now: number) => [now - DAY, now, now + DAY].map(time => getDailySeed(getDailyKey(new Date(time))));
+
+export type Verdict = { ok: true } | { ok: false; reason: RejectionReason; detail: string };
+
+const reject = (reason: RejectionReason, detail: string): Verdict => ({ ok: false, reason, detail });
+
+// Replays the submitted inputs through the engine and checks they produce the claimed run
+export const verifySubmission = (submission: ScoreSubmission, now = Date.now()): Verdict => {
+  const { replay } = submission;
+
+  if (replay.version !== ENGINE_VERSION) {
+    return reject("version", `Replay is from engine version ${replay.version}, expected ${ENGINE_VERSION}`);
+  }
+  if (replay.mode !== submission.mode) {
+    return reject("mode", `Submitted as ${submission.mode} but the replay is ${replay.mode}`);
+  }
+  if (replay.difficulty !== submission.difficulty) {
+    return reject("mode", `Submitted on ${submission.difficulty} but the replay is on ${replay.difficulty}`);
+  }
+  // Everyone plays the daily challenge on the same footing
+  if (replay.mode === "daily" && replay.difficulty !== "normal") {
+    return reject("mode", `Daily challenges are played on normal, not ${replay.difficulty}`);
+  }
+  if ((replay.mode === "campaign") !== !!replay.levelId || (replay.levelId && !getCampaignLevel(replay.levelId))) {
+    return reject("mode", `Unknown campaign level ${replay.levelId ?? "(none)"}`);
+  }
+  if (replay.mode === "daily" && !getDailySeeds(now).includes(replay.seed)) {
+    return reject("seed", `Seed ${replay.seed} isn't today's daily challenge`);
+  }
+  if (replay.ticks > MAX_TICKS) {
+    return reject("tooLong", `Runs are limited to ${MAX_TICKS} ticks`);
+  }
+  if (replay.toggles.some((tick, i) => tick < 1 || tick > replay.ticks || (i > 0 && tick <= replay.toggles[i - 1]))) {
+    return reject("inputs", "Input toggles must be increasing ticks within the run");
+  }
+
+  const player = createReplayPlayer(replay);
+  while (!player.finished()) player.advance();
+  const state = player.state();
+
+  // The run has to end exactly where the replay claims, and by crashing or finishing
+  if (!state.over || state.tick !== replay.ticks) {
+    return reject("unfinished", `Simulation ended at tick ${state.tick}, replay claims ${replay.ticks}`);
+  }
+  if (state.score !== replay.score || state.score !== submission.score) {
+    return reject("score", `Simulated score is ${state.score}, claimed ${submission.score}`);
+  }
+  const distance = Math.floor(state.distance);
+  if (distance !== replay.distance || distance !== submission.distance) {
+    return reject("distance", `Simulated distance is ${distance}, claimed ${submission.distance}`);
+  }
+  if (state.timeAlive !== replay.timeAlive || state.timeAlive !== submission.timeAlive) {
+    return reject("time", `Simulated time is ${state.timeAlive}s, claimed ${submission.timeAlive}s`);
+  }
+  const completed = !state.death;
+  if (completed !== replay.completed || state.hits !== replay.hits || state.collected !== replay.collected) {
+    return reject(
+      "result",
+      `Simulated run ${completed ? "finished" : "crashed"} with ${state.hits} hits and ${state.collected} orbs, ` +
+        `replay claims ${replay.completed ? "finished" : "crashed"} with ${replay.hits} hits and ${replay.collected} orbs`
+    );
+  }
+  return { ok: true };
+};
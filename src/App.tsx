@@ -4,6 +4,17 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Daily from "./pages/Daily";
+import DailyPlay from "./pages/DailyPlay";
+import Replays from "./pages/Replays";
+import Replay from "./pages/Replay";
+import Campaign from "./pages/Campaign";
+import CampaignPlay from "./pages/CampaignPlay";
+import Editor from "./pages/Editor";
+import Shop from "./pages/Shop";
+import Achievements from "./pages/Achievements";
+import Stats from "./pages/Stats";
+import Leaderboard from "./pages/Leaderboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +27,17 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/daily" element={<Daily />} />
+          <Route path="/daily/play" element={<DailyPlay />} />
+          <Route path="/campaign" element={<Campaign />} />
+          <Route path="/campaign/:levelId" element={<CampaignPlay />} />
+          <Route path="/replays" element={<Replays />} />
+          <Route path="/replays/:id" element={<Replay />} />
+          <Route path="/editor" element={<Editor />} />
+          <Route path="/shop" element={<Shop />} />
+          <Route path="/achievements" element={<Achievements />} />
+          <Route path="/stats" element={<Stats />} />
+          <Route path="/leaderboard" element={<Leaderboard />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import type { Skin, Trail } from "@/game/cosmetics";
+import { updateParticles } from "@/game/engine";
+import { drawPlayer } from "@/game/render";
+import { createRng } from "@/game/rng";
+import type { Particle, Player } from "@/game/types";
+
+interface CosmeticPreviewProps {
+  skin: Skin;
+  trail: Trail;
+  size?: number;
+}
+
+// How often the preview flips to show off the trail, in seconds
+const FLIP_INTERVAL = 1.2;
+const PLAYER_SIZE = 25;
+
+// A looping little scene of the player flipping in place
+const CosmeticPreview = ({ skin, trail, size = 120 }: CosmeticPreviewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const rng = createRng(1);
+    const center = size / 2;
+    let particles: Particle[] = [];
+    let nextId = 0;
+    let nextFlip = 0;
+    let last = performance.now();
+    const player: Player = {
+      x: center - PLAYER_SIZE / 2,
+      y: center - PLAYER_SIZE / 2,
+      width: PLAYER_SIZE,
+      height: PLAYER_SIZE,
+      velocityY: 0,
+      onGround: true,
+      gravityFlipped: false,
+      isFlipping: false,
+      flipStartTime: 0
+    };
+    const start = last;
+    let frame = 0;
+
+    const render = (now: number) => {
+      const time = (now - start) / 1000;
+      const dt = Math.min(0.1, (now - last) / 1000);
+      last = now;
+
+      if (time >= nextFlip) {
+        const burst = trail.create(rng, center, center, nextId);
+        particles = particles.concat(burst);
+        nextId += burst.length;
+        player.isFlipping = true;
+        player.flipStartTime = time;
+        nextFlip = time + FLIP_INTERVAL;
+      }
+      player.isFlipping = time - player.flipStartTime < 0.3;
+      particles = updateParticles(particles, dt);
+
+      ctx.clearRect(0, 0, size, size);
+      particles.forEach(particle => {
+        ctx.globalAlpha = particle.life;
+        ctx.fillStyle = particle.color ?? 'hsl(180, 100%, 80%)';
+        ctx.fillRect(particle.x, particle.y, 3, 3);
+      });
+      ctx.globalAlpha = 1;
+      drawPlayer(ctx, player, time, skin);
+
+      frame = requestAnimationFrame(render);
+    };
+
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [skin, trail, size]);
+
+  return <canvas ref={canvasRef} width={size} height={size} className="rounded-md bg-game-bg" />;
+};
+
+export default CosmeticPreview;
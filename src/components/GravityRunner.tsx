@@ -1,467 +1,499 @@
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useCallback, type KeyboardEvent } from "react";
+import { Pause, Settings as SettingsIcon, Star } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import LeaderboardNameDialog from "@/components/LeaderboardNameDialog";
+import SettingsDialog from "@/components/SettingsDialog";
 import { toast } from "sonner";
-
-interface Obstacle {
-  id: number;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  isTop: boolean;
+import { Link } from "react-router-dom";
+import { combineStats, createStats, getNewlyUnlocked, updateRunStats } from "@/game/achievements";
+import type { SoundEffect } from "@/game/audio";
+import { getStars, type CampaignLevel, type LevelStars } from "@/game/campaign";
+import { getSkin } from "@/game/cosmetics";
+import { createGame, createLevelGame, DIFFICULTY_SETTINGS, ENGINE_VERSION, interpolate, step } from "@/game/engine";
+import { describeObstacle } from "@/game/obstacles";
+import { createEffects, POWER_UP_KINDS, POWER_UPS } from "@/game/powerups";
+import { createGameLoop, type GameLoop } from "@/game/loop";
+import { getDifficultyLevel } from "@/game/physics";
+import { COUNTDOWN_SECONDS, createPhaseState, DEATH_DURATION, transition, type PhaseEvent, type PhaseState } from "@/game/phase";
+import { drawGame } from "@/game/render";
+import { createRecorder, createReplayPlayer, type Replay, type ReplayPlayer, type ReplayRecorder } from "@/game/replay";
+import { randomSeed } from "@/game/rng";
+import { useSubmitScore } from "@/hooks/use-leaderboard";
+import { useAudio } from "@/hooks/use-audio";
+import { useGamepad } from "@/hooks/use-gamepad";
+import { useSettings } from "@/hooks/use-settings";
+import { loadAchievements, saveAchievements } from "@/lib/achievements";
+import { describeBinding, getAction, type ControlAction } from "@/lib/controls";
+import { describeGamepad } from "@/lib/gamepad";
+import {
+  addLeaderboardEntry,
+  getBoard,
+  getHighScore,
+  qualifiesForLeaderboard,
+  recordBestScore,
+  type LeaderboardEntry
+} from "@/lib/leaderboard";
+import { loadBestReplay, saveBestReplay, saveReplay } from "@/lib/replays";
+import { loadCosmetics } from "@/lib/cosmetics";
+import { saveRun } from "@/lib/runs";
+import { depositOrbs, loadWallet } from "@/lib/wallet";
+import type { Death, Difficulty, GameEvent, GameMode, GameState } from "@/game/types";
+
+interface GravityRunnerProps {
+  mode?: GameMode;
+  // Overrides the difficulty picked in the settings
+  difficulty?: Difficulty;
+  // Fixed course for every run; endless mode rolls a new seed per run
+  seed?: number;
+  // Authored level to play instead of the endless course
+  level?: CampaignLevel;
+  // Where "Next Level" goes after clearing `level`
+  nextPath?: string;
+  title?: string;
+  // Shown on the start and game over screens, e.g. whether the next run counts
+  subtitle?: string;
+  // Best score shown in the header for modes that keep their own records
+  bestScore?: number;
+  // The run being played doesn't count, like a daily challenge after the scored attempt
+  practice?: boolean;
+  onRunStart?: () => void;
+  onRunEnd?: (replay: Replay, replayId: string) => void;
 }
 
-interface Particle {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-}
+// What the menu keys move between on the title, pause and results overlays
+const MENU_ITEMS = '[data-menu] button:not(:disabled), [data-menu] a[href]';
+
+// Spelled out so Tailwind can see every class
+const HUD_COLUMNS: Record<number, string> = {
+  1: 'lg:grid-cols-1',
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+  5: 'lg:grid-cols-5',
+  6: 'lg:grid-cols-6',
+  7: 'lg:grid-cols-7'
+};
+
+// How long the screen shakes after an impact, in milliseconds
+const SHAKE_DURATION = 300;
+const CRASH_SHAKE = 8;
+const HIT_SHAKE = 4;
+
+// Score changes stay silent: they come every obstacle and would drown out the rest
+const EVENT_SOUNDS: Partial<Record<GameEvent['type'], SoundEffect>> = {
+  flip: 'flip',
+  collect: 'pickup',
+  powerUp: 'pickup',
+  nearMiss: 'nearMiss',
+  hit: 'hit',
+  shielded: 'shield',
+  crash: 'crash',
+  finish: 'finish'
+};
 
-const GravityRunner = () => {
+const GravityRunner = ({
+  mode = "endless",
+  difficulty: difficultyOverride,
+  seed,
+  level,
+  nextPath,
+  title = "Gravity Runner",
+  subtitle,
+  bestScore = 0,
+  practice = false,
+  onRunStart,
+  onRunEnd
+}: GravityRunnerProps) => {
+  const isEndless = mode === "endless";
+  const settings = useSettings();
+  const audio = useAudio();
+  const difficulty = difficultyOverride ?? settings.difficulty;
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
-  const [gameStarted, setGameStarted] = useState(false);
-  const [gameOver, setGameOver] = useState(false);
+  const loopRef = useRef<GameLoop>();
+  // Current screen; every overlay renders from this
+  const [phaseState, setPhaseState] = useState<PhaseState>(() => createPhaseState(performance.now()));
+  const phaseRef = useRef(phaseState);
+  const phase = phaseState.phase;
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
   const [score, setScore] = useState(0);
   const [distance, setDistance] = useState(0);
   const [timeAlive, setTimeAlive] = useState(0);
+  const [hits, setHits] = useState(0);
+  const [collected, setCollected] = useState(0);
+  const [effects, setEffects] = useState(createEffects);
   const [canvasSize] = useState({ width: 360, height: 640 }); // Fixed mobile portrait
-  const [highScore, setHighScore] = useState(() => {
-    return parseInt(localStorage.getItem('gravityRunnerHighScore') || '0');
-  });
+  const [endlessHighScore, setHighScore] = useState(() => getHighScore('endless'));
+  // A run that made the leaderboard and is waiting for a name
+  const [pendingEntry, setPendingEntry] = useState<(Omit<LeaderboardEntry, 'id' | 'name'> & { replay: Replay }) | null>(null);
+  const submitScore = useSubmitScore();
+  const highScore = isEndless ? endlessHighScore : bestScore;
+  const [wallet, setWallet] = useState(loadWallet);
+  // Equipped cosmetics, read once since they can only change in the shop
+  const [cosmetics] = useState(loadCosmetics);
   
   // Game state
-  const gameState = useRef({
-    player: {
-      x: 100,
-      y: 300,
-      width: 30,
-      height: 30,
-      velocityY: 0,
-      onGround: true,
-      gravityFlipped: false,
-      isFlipping: false,
-      flipStartTime: 0
-    },
-    obstacles: [] as Obstacle[],
-    particles: [] as Particle[],
-    gameSpeed: 3,
-    lastObstacleTime: 0,
-    score: 0,
-    distance: 0,
-    startTime: 0,
-    keys: {
-      space: false
-    }
+  const gameState = useRef<GameState>(createGame(canvasSize));
+  const previousState = useRef<GameState>(gameState.current);
+  const flipHeld = useRef(false);
+  // A press waiting to flip, with the one-flip-per-press controls
+  const flipQueued = useRef(false);
+  // Last hit or crash, for the screen shake
+  const impact = useRef({ at: -Infinity, strength: 0 });
+  const recorder = useRef<ReplayRecorder>(createRecorder({ seed: gameState.current.seed, mode, difficulty }));
+  const [lastReplayId, setLastReplayId] = useState<string>();
+  const [death, setDeath] = useState<Death | null>(null);
+  // Lifetime achievement progress as of the start of the run, and what this run has added to it
+  const achievements = useRef(loadAchievements());
+  const runStats = useRef(createStats());
+  // Stars from the last run, on a level
+  const [stars, setStars] = useState<LevelStars | null>(null);
+
+  // Ghost of the best run, replayed in lockstep when racing on its seed
+  const [bestReplay, setBestReplay] = useState(() => {
+    const replay = loadBestReplay();
+    return replay?.version === ENGINE_VERSION ? replay : null;
   });
-
-  // Fixed mobile dimensions
-  const GRAVITY = 0.8;
-  const JUMP_FORCE = -15;
-  const getGroundY = () => canvasSize.height - 50;
-  const getCeilingY = () => 50;
-  const getPlayerSize = () => 25; // Fixed size for mobile
-
-  // Progressive difficulty system
-  const getDifficultyLevel = (score: number) => Math.floor(score / 100);
-  const getObstacleSpacing = (level: number) => Math.max(800, 1500 - (level * 100));
-  const getObstacleVariety = (level: number) => Math.min(4, 1 + Math.floor(level / 2));
-  
-  const createObstacle = useCallback(() => {
-    const now = Date.now();
-    const level = getDifficultyLevel(gameState.current.score);
-    const spacing = getObstacleSpacing(level);
-    
-    if (now - gameState.current.lastObstacleTime < spacing) return;
-
-    const variety = getObstacleVariety(level);
-    const pattern = Math.floor(Math.random() * variety);
-    
-    // Different obstacle patterns based on difficulty
-    switch (pattern) {
-      case 0: // Single obstacle
-        createSingleObstacle(now);
-        break;
-      case 1: // Double stack (top and bottom)
-        createDoubleObstacle(now);
-        break;
-      case 2: // Narrow gap
-        createNarrowGap(now);
-        break;
-      case 3: // Spike pattern
-        createSpikePattern(now);
-        break;
-      default:
-        createSingleObstacle(now);
-    }
-
-    gameState.current.lastObstacleTime = now;
+  const [racingGhost, setRacingGhost] = useState(false);
+  const ghost = useRef<{ replay: Replay; player: ReplayPlayer } | null>(null);
+  const [ghostDelta, setGhostDelta] = useState<number | null>(null);
+
+  // Applies a phase event, returning whether it was allowed
+  const send = useCallback((event: PhaseEvent) => {
+    const next = transition(phaseRef.current, event, performance.now());
+    if (!next) return false;
+    phaseRef.current = next;
+    setPhaseState(next);
+    return true;
   }, []);
 
-  const createSingleObstacle = (id: number) => {
-    const isTop = Math.random() < 0.5;
-    const height = canvasSize.height * (0.15 + Math.random() * 0.15);
-    const obstacle: Obstacle = {
-      id,
-      x: canvasSize.width,
-      y: isTop ? getCeilingY() : getGroundY() - height,
-      width: 20,
-      height,
-      isTop
-    };
-    gameState.current.obstacles.push(obstacle);
-  };
-
-  const createDoubleObstacle = (id: number) => {
-    const gap = canvasSize.height * 0.4;
-    const topHeight = canvasSize.height * 0.2;
-    const bottomHeight = canvasSize.height - gap - topHeight - 100;
-    
-    gameState.current.obstacles.push({
-      id: id,
-      x: canvasSize.width,
-      y: getCeilingY(),
-      width: 20,
-      height: topHeight,
-      isTop: true
-    });
-    
-    gameState.current.obstacles.push({
-      id: id + 0.1,
-      x: canvasSize.width,
-      y: getGroundY() - bottomHeight,
-      width: 20,
-      height: bottomHeight,
-      isTop: false
-    });
-  };
-
-  const createNarrowGap = (id: number) => {
-    const gap = Math.max(80, canvasSize.height * 0.25);
-    const gapStart = getCeilingY() + 50 + Math.random() * (canvasSize.height - gap - 150);
-    
-    gameState.current.obstacles.push({
-      id: id,
-      x: canvasSize.width,
-      y: getCeilingY(),
-      width: 25,
-      height: gapStart - getCeilingY(),
-      isTop: true
-    });
-    
-    gameState.current.obstacles.push({
-      id: id + 0.1,
-      x: canvasSize.width,
-      y: gapStart + gap,
-      width: 25,
-      height: getGroundY() - (gapStart + gap),
-      isTop: false
-    });
-  };
-
-  const createSpikePattern = (id: number) => {
-    const spikeCount = 3 + Math.floor(Math.random() * 3);
-    const spacing = 15;
-    
-    for (let i = 0; i < spikeCount; i++) {
-      const isTop = Math.random() < 0.5;
-      const height = 40 + Math.random() * 60;
-      
-      gameState.current.obstacles.push({
-        id: id + i * 0.1,
-        x: canvasSize.width + i * spacing,
-        y: isTop ? getCeilingY() : getGroundY() - height,
-        width: 12,
-        height,
-        isTop
-      });
+  const updateGame = useCallback(() => {
+    if (gameState.current.over) {
+      // Keep the crash debris moving through the death animation
+      previousState.current = gameState.current;
+      gameState.current = step(gameState.current, { flip: false });
+      return;
     }
-  };
 
-  const createParticles = useCallback((x: number, y: number) => {
-    for (let i = 0; i < 8; i++) {
-      const particle: Particle = {
-        id: Date.now() + i,
-        x: x + Math.random() * 20 - 10,
-        y: y + Math.random() * 20 - 10,
-        vx: (Math.random() - 0.5) * 8,
-        vy: (Math.random() - 0.5) * 8,
-        life: 1
-      };
-      gameState.current.particles.push(particle);
+    const input = { flip: flipHeld.current || flipQueued.current };
+    previousState.current = gameState.current;
+    const state = step(gameState.current, input);
+    gameState.current = state;
+    if (state.events.some(event => event.type === 'flip')) flipQueued.current = false;
+    if (state.events.some(event => event.type === 'crash')) {
+      impact.current = { at: performance.now(), strength: CRASH_SHAKE };
+    } else if (state.events.some(event => event.type === 'hit' || event.type === 'shielded')) {
+      impact.current = { at: performance.now(), strength: HIT_SHAKE };
     }
-  }, []);
-
-  const checkCollision = useCallback((rect1: any, rect2: any) => {
-    return rect1.x < rect2.x + rect2.width &&
-           rect1.x + rect1.width > rect2.x &&
-           rect1.y < rect2.y + rect2.height &&
-           rect1.y + rect1.height > rect2.y;
-  }, []);
-
-  const updateGame = useCallback(() => {
-    const state = gameState.current;
-    const player = state.player;
-
-    // Update distance and time tracking
-    state.distance += state.gameSpeed;
-    const currentTime = Date.now();
-    if (state.startTime === 0) state.startTime = currentTime;
-    const timeAliveSeconds = Math.floor((currentTime - state.startTime) / 1000);
-    setDistance(Math.floor(state.distance));
-    setTimeAlive(timeAliveSeconds);
-
-    // Handle gravity flip
-    if (state.keys.space && !player.isFlipping) {
-      player.gravityFlipped = !player.gravityFlipped;
-      player.isFlipping = true;
-      player.flipStartTime = Date.now();
-      player.velocityY = player.gravityFlipped ? JUMP_FORCE : -JUMP_FORCE;
-      createParticles(player.x + player.width/2, player.y + player.height/2);
+    state.events.forEach(event => {
+      const sound = EVENT_SOUNDS[event.type];
+      if (sound) audio.play(sound);
+    });
+    const difficultyLevel = getDifficultyLevel(state.baseScore);
+    if (difficultyLevel > getDifficultyLevel(previousState.current.baseScore)) {
+      audio.play('levelUp');
+      audio.setIntensity(difficultyLevel);
     }
-
-    // Update flip animation
-    if (player.isFlipping && Date.now() - player.flipStartTime > 300) {
-      player.isFlipping = false;
+    recorder.current.record(state.tick, input);
+    ghost.current?.player.advance();
+
+    runStats.current = updateRunStats(runStats.current, state);
+    const stats = combineStats(achievements.current.stats, runStats.current);
+    const unlocked = getNewlyUnlocked(stats, Object.keys(achievements.current.unlocked));
+    if (unlocked.length > 0) {
+      saveAchievements(stats, unlocked.map(achievement => achievement.id));
+      achievements.current = { ...achievements.current, unlocked: loadAchievements().unlocked };
+      unlocked.forEach(achievement => {
+        toast.success(`Achievement unlocked: ${achievement.name}`, { description: achievement.description });
+      });
     }
 
-    // Apply gravity
-    const gravity = player.gravityFlipped ? -GRAVITY : GRAVITY;
-    player.velocityY += gravity;
-
-    // Update player position
-    player.y += player.velocityY;
-
-    // Ground/ceiling collision
-    const groundY = getGroundY();
-    const ceilingY = getCeilingY();
-    
-    if (!player.gravityFlipped) {
-      if (player.y + player.height >= groundY) {
-        player.y = groundY - player.height;
-        player.velocityY = 0;
-        player.onGround = true;
-      } else {
-        player.onGround = false;
+    const ending = state.events.find(event => event.type === 'crash' || event.type === 'finish');
+    if (ending) {
+      const replay = recorder.current.finish(state);
+      const { id } = saveReplay(replay);
+      send(ending.type === 'crash' ? 'crash' : 'finish');
+      setLastReplayId(id);
+      setDeath(state.death);
+      setStars(level ? getStars(replay, level.level) : null);
+      setWallet(depositOrbs(state.collected));
+      saveAchievements(stats);
+      saveRun({
+        mode,
+        difficulty: replay.difficulty,
+        score: replay.score,
+        distance: replay.distance,
+        timeAlive: replay.timeAlive,
+        flips: runStats.current.flips,
+        death: state.death && describeObstacle(state.death.obstacle),
+        levelReached: getDifficultyLevel(state.baseScore)
+      });
+      onRunEnd?.(replay, id);
+      if (qualifiesForLeaderboard(replay.score, getBoard({ mode, practice }), replay.difficulty)) {
+        setPendingEntry({
+          score: replay.score,
+          distance: replay.distance,
+          timeAlive: replay.timeAlive,
+          date: replay.recordedAt,
+          mode,
+          difficulty: replay.difficulty,
+          practice,
+          replay
+        });
       }
-    } else {
-      if (player.y <= ceilingY) {
-        player.y = ceilingY;
-        player.velocityY = 0;
-        player.onGround = true;
-      } else {
-        player.onGround = false;
+      // Kept whether or not the run gets a name on the leaderboard
+      if (isEndless && recordBestScore(mode, state.score)) {
+        setHighScore(state.score);
+        saveBestReplay(replay);
+        setBestReplay(replay);
+        toast.success("New High Score!");
       }
     }
+  }, [isEndless, level, mode, practice, onRunEnd, send, audio]);
 
-    // Create obstacles
-    createObstacle();
-
-    // Update obstacles
-    state.obstacles = state.obstacles.filter(obstacle => {
-      obstacle.x -= state.gameSpeed;
-      
-      // Remove off-screen obstacles and award points
-      if (obstacle.x + obstacle.width < 0) {
-        state.score += 10;
-        setScore(state.score);
-        return false;
-      }
-      
-      // Check collision
-      if (checkCollision(player, obstacle)) {
-        setGameOver(true);
-        if (state.score > highScore) {
-          setHighScore(state.score);
-          localStorage.setItem('gravityRunnerHighScore', state.score.toString());
-          toast.success("New High Score!");
-        }
-        return false;
-      }
-      
-      return true;
-    });
-
-    // Update particles
-    state.particles = state.particles.filter(particle => {
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-      particle.vx *= 0.98;
-      particle.vy *= 0.98;
-      particle.life -= 0.02;
-      return particle.life > 0;
-    });
-
-    // Progressive speed increase - gets faster with distance and levels
-    const level = getDifficultyLevel(state.score);
-    const baseSpeed = 4;
-    const speedMultiplier = 1 + (level * 0.3) + (state.distance * 0.0001);
-    state.gameSpeed = Math.min(12, baseSpeed * speedMultiplier);
-  }, [createObstacle, createParticles, checkCollision, highScore]);
-
-  const draw = useCallback(() => {
+  const draw = useCallback((alpha: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const state = gameState.current;
-    const player = state.player;
-
-    // Clear canvas with gradient background
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvasSize.height);
-    gradient.addColorStop(0, 'hsl(220, 25%, 4%)');
-    gradient.addColorStop(1, 'hsl(220, 20%, 6%)');
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvasSize.width, canvasSize.height);
-
-    // Draw floor and ceiling
-    ctx.fillStyle = 'hsl(200, 80%, 50%)';
-    ctx.shadowColor = 'hsl(200, 80%, 50%)';
-    ctx.shadowBlur = 10;
-    ctx.fillRect(0, getGroundY(), canvasSize.width, 50);
-    ctx.fillRect(0, 0, canvasSize.width, getCeilingY());
-    ctx.shadowBlur = 0;
-
-    // Draw particles
-    state.particles.forEach(particle => {
-      ctx.save();
-      ctx.globalAlpha = particle.life;
-      ctx.fillStyle = 'hsl(180, 100%, 80%)';
-      ctx.shadowColor = 'hsl(180, 100%, 80%)';
-      ctx.shadowBlur = 5;
-      ctx.fillRect(particle.x, particle.y, 3, 3);
-      ctx.restore();
+    const state = interpolate(previousState.current, gameState.current, alpha);
+    const ghostPlayer = ghost.current?.player;
+    // A crashed ghost would sit still while the course scrolls, so it is hidden instead
+    const ghostState = ghostPlayer && !ghostPlayer.finished()
+      ? interpolate(ghostPlayer.previous(), ghostPlayer.state(), alpha)
+      : undefined;
+    const { phase, enteredAt } = phaseRef.current;
+    const deathProgress = state.death && (phase === 'dying' || phase === 'results')
+      ? Math.min(1, (performance.now() - enteredAt) / DEATH_DURATION)
+      : undefined;
+    const sinceImpact = performance.now() - impact.current.at;
+    const shake = settings.screenShake && !settings.reducedMotion && sinceImpact < SHAKE_DURATION
+      ? impact.current.strength * (1 - sinceImpact / SHAKE_DURATION)
+      : 0;
+    drawGame(ctx, state, {
+      ghost: ghostState,
+      deathProgress,
+      skin: getSkin(cosmetics.equipped.skin),
+      quality: settings.effectsQuality,
+      reducedMotion: settings.reducedMotion,
+      shake
     });
+  }, [cosmetics, settings]);
 
-    // Draw player with flip animation
-    ctx.save();
-    if (player.isFlipping) {
-      const flipProgress = (Date.now() - player.flipStartTime) / 300;
-      const scale = 1 + Math.sin(flipProgress * Math.PI) * 0.3;
-      ctx.translate(player.x + player.width/2, player.y + player.height/2);
-      ctx.scale(scale, 1);
-      ctx.translate(-player.width/2, -player.height/2);
-    } else {
-      ctx.translate(player.x, player.y);
-    }
-    
-    ctx.fillStyle = 'hsl(280, 100%, 70%)';
-    ctx.shadowColor = 'hsl(280, 100%, 70%)';
-    ctx.shadowBlur = 15;
-    ctx.fillRect(0, 0, player.width, player.height);
-    ctx.restore();
-
-    // Draw obstacles
-    state.obstacles.forEach(obstacle => {
-      ctx.fillStyle = 'hsl(0, 100%, 60%)';
-      ctx.shadowColor = 'hsl(0, 100%, 60%)';
-      ctx.shadowBlur = 10;
-      ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
-    });
-
-    ctx.shadowBlur = 0;
-  }, [canvasSize]);
-
-  const gameLoop = useCallback(() => {
-    if (!gameOver && gameStarted) {
-      updateGame();
-      draw();
-      animationRef.current = requestAnimationFrame(gameLoop);
-    }
-  }, [gameStarted, gameOver, updateGame, draw]);
+  const render = useCallback((alpha: number) => {
+    const state = gameState.current;
+    setDistance(Math.floor(state.distance));
+    setTimeAlive(state.timeAlive);
+    setScore(state.score);
+    setHits(state.hits);
+    setCollected(state.collected);
+    setEffects(state.effects);
+    if (ghost.current) setGhostDelta(Math.floor(state.distance) - ghost.current.replay.distance);
+    draw(alpha);
+  }, [draw]);
 
   const startGame = useCallback(() => {
-    setGameStarted(true);
-    setGameOver(false);
+    if (!send('start')) return;
+    // Browsers only let audio start from a user gesture, which starting a run always is
+    audio.init();
+
     setScore(0);
     setDistance(0);
     setTimeAlive(0);
+    setHits(0);
+    setCollected(0);
+    setEffects(createEffects());
+
+    const ghostReplay = isEndless && racingGhost ? bestReplay : null;
+    ghost.current = ghostReplay && { replay: ghostReplay, player: createReplayPlayer(ghostReplay) };
+    setGhostDelta(ghostReplay && -ghostReplay.distance);
     
-    const playerSize = getPlayerSize();
-    const startY = canvasSize.height / 2;
-    
+    const runDifficulty = ghostReplay?.difficulty ?? difficulty;
+    const config = { ...canvasSize, ...DIFFICULTY_SETTINGS[runDifficulty] };
+    const runSeed = seed ?? ghostReplay?.seed ?? randomSeed();
     gameState.current = {
-      player: {
-        x: canvasSize.width * 0.15,
-        y: startY,
-        width: playerSize,
-        height: playerSize,
-        velocityY: 0,
-        onGround: true,
-        gravityFlipped: false,
-        isFlipping: false,
-        flipStartTime: 0
-      },
-      obstacles: [],
-      particles: [],
-      gameSpeed: 4,
-      lastObstacleTime: 0,
-      score: 0,
-      distance: 0,
-      startTime: 0,
-      keys: { space: false }
+      ...(level ? createLevelGame(level.level, config, 0, runSeed) : createGame(config, runSeed)),
+      trail: cosmetics.equipped.trail
     };
-    toast.success("Game Started! Press SPACE to flip gravity!");
-  }, []);
+    previousState.current = gameState.current;
+    recorder.current = createRecorder({ seed: runSeed, mode, difficulty: runDifficulty, levelId: level?.id });
+    flipHeld.current = false;
+    flipQueued.current = false;
+    achievements.current = loadAchievements();
+    runStats.current = createStats();
+    onRunStart?.();
+    toast.success(`Game Started! Press ${describeBinding(settings.keyBindings.flip)} to flip gravity!`);
+  }, [canvasSize, isEndless, racingGhost, bestReplay, seed, level, cosmetics, mode, difficulty, onRunStart, send, settings.keyBindings.flip, audio]);
+
+  const saveLeaderboardEntry = (name: string, online: boolean) => {
+    if (!pendingEntry) return;
+    const { replay, ...entry } = pendingEntry;
+    const rank = addLeaderboardEntry({ ...entry, name });
+    setPendingEntry(null);
+    if (rank) toast.success(`#${rank} on the leaderboard!`);
+    // Practice runs stay on this device
+    if (online && !entry.practice) {
+      submitScore.mutate({ ...entry, name, replay }, {
+        onSuccess: result => toast.success(`#${result.rank} on the online leaderboard!`),
+        onError: error => toast.error(`Couldn't post online: ${error.message}`)
+      });
+    }
+  };
 
-  const resetGame = useCallback(() => {
-    setGameStarted(false);
-    setGameOver(false);
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+  const pauseGame = useCallback(() => {
+    if (send('pause')) {
+      flipHeld.current = false;
+      flipQueued.current = false;
     }
-  }, []);
+  }, [send]);
+
+  const resumeGame = useCallback(() => {
+    send('resume');
+  }, [send]);
 
-  // Keyboard controls
+  // 3-2-1 countdown before a run starts or resumes
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        e.preventDefault();
-        if (!gameStarted && !gameOver) {
-          startGame();
-        } else if (gameStarted && !gameOver) {
-          gameState.current.keys.space = true;
-        } else if (gameOver) {
-          startGame();
-        }
+    if (phase !== 'countdown') return;
+
+    draw(1);
+    let remaining = COUNTDOWN_SECONDS;
+    setCountdown(remaining);
+    const timer = setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+      } else {
+        send('countdownDone');
       }
-    };
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [phase, draw, send]);
 
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === 'Space') {
-        e.preventDefault();
-        gameState.current.keys.space = false;
-      }
+  // Hold the death animation before showing the results
+  useEffect(() => {
+    if (phase !== 'dying') return;
+    const timer = setTimeout(() => send('deathDone'), DEATH_DURATION);
+    return () => clearTimeout(timer);
+  }, [phase, send]);
+
+  // Auto-pause when the tab is hidden or the window loses focus
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) pauseGame();
     };
 
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', pauseGame);
 
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', pauseGame);
     };
-  }, [gameStarted, gameOver, startGame]);
+  }, [pauseGame]);
+
+  // Keep focus in the game area so its keys keep working, e.g. after the button that was
+  // clicked disappears along with its overlay
+  useEffect(() => {
+    if (!containerRef.current?.contains(document.activeElement)) containerRef.current?.focus();
+  }, [phase]);
+
+  // Moves focus through the buttons and links of the overlay on screen, wrapping at either end
+  const moveMenuFocus = (direction: 1 | -1) => {
+    const items = Array.from(containerRef.current?.querySelectorAll<HTMLElement>(MENU_ITEMS) ?? []);
+    if (items.length === 0) return;
+    const current = items.indexOf(document.activeElement as HTMLElement);
+    const next = current === -1 ? (direction === 1 ? 0 : items.length - 1) : (current + direction + items.length) % items.length;
+    items[next].focus();
+  };
+
+  // What a key or controller button does, depending on where the game is.
+  // `repeat` is set for the presses a held key keeps sending.
+  const performAction = (action: ControlAction, repeat = false) => {
+    const focused = document.activeElement instanceof HTMLElement && document.activeElement.matches(MENU_ITEMS)
+      ? document.activeElement
+      : null;
+
+    if (action === 'pause') {
+      if (phase === 'paused') {
+        resumeGame();
+      } else {
+        pauseGame();
+      }
+    } else if (action === 'flip') {
+      if (phase === 'playing') {
+        if (settings.controlScheme === 'hold') {
+          flipHeld.current = true;
+        } else if (!repeat) {
+          flipQueued.current = true;
+        }
+      } else if (focused && !repeat) {
+        // Picked with the menu keys, so take it over starting a new run
+        focused.click();
+      } else if (phase === 'title' || (phase === 'results' && !repeat)) {
+        startGame();
+      }
+    } else if (action === 'restart') {
+      if (!repeat && (phase === 'playing' || phase === 'paused' || phase === 'results')) startGame();
+    } else if (action === 'menuUp' || action === 'menuDown') {
+      moveMenuFocus(action === 'menuUp' ? -1 : 1);
+    } else if (action === 'menuSelect') {
+      if (focused) {
+        focused.click();
+      } else {
+        moveMenuFocus(1);
+      }
+    }
+  };
+
+  // Keyboard controls, only while focus is in the game area
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    // Dialogs render in a portal but their key presses still bubble through React to here.
+    // Typing a name for the leaderboard needs its keys too.
+    if (!containerRef.current?.contains(e.target as Node) || e.target instanceof HTMLInputElement) return;
+    const action = getAction(settings.keyBindings, e.code);
+    if (!action) return;
+    e.preventDefault();
+    performAction(action, e.repeat);
+  };
+
+  const handleKeyUp = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (settings.keyBindings.flip.includes(e.code)) {
+      e.preventDefault();
+      flipHeld.current = false;
+    }
+  };
+
+  // Controllers work wherever focus is, except while a dialog is open
+  useGamepad({
+    onPress: action => {
+      if (!settingsOpen && !pendingEntry) performAction(action);
+    },
+    onRelease: action => {
+      if (action === 'flip') flipHeld.current = false;
+    },
+    onConnect: id => toast.success(`${describeGamepad(id)} connected`, { description: 'Any face button flips, Start pauses.' }),
+    onDisconnect: id => toast(`${describeGamepad(id)} disconnected`)
+  });
 
   // Touch controls
   const handleTouch = useCallback(() => {
-    if (!gameStarted && !gameOver) {
-      startGame();
-    } else if (gameStarted && !gameOver) {
-      gameState.current.keys.space = true;
+    if (phase === 'playing' && settings.controlScheme === 'tap') {
+      flipQueued.current = true;
+    } else if (phase === 'playing') {
+      flipHeld.current = true;
       setTimeout(() => {
-        gameState.current.keys.space = false;
+        flipHeld.current = false;
       }, 100);
-    } else if (gameOver) {
+    } else if (phase === 'title' || phase === 'results') {
       startGame();
     }
-  }, [gameStarted, gameOver, startGame]);
+  }, [phase, settings.controlScheme, startGame]);
 
   // Initialize canvas dimensions
   useEffect(() => {
@@ -472,44 +504,65 @@ const GravityRunner = () => {
     }
   }, []);
 
+  // Soundtrack plays only while actually running, picking up the intensity where the run is at
+  useEffect(() => {
+    if (phase !== 'playing') return;
+    audio.setIntensity(getDifficultyLevel(gameState.current.baseScore));
+    audio.startMusic();
+    return audio.stopMusic;
+  }, [phase, audio]);
+
   // Start game loop
   useEffect(() => {
-    if (gameStarted && !gameOver) {
-      animationRef.current = requestAnimationFrame(gameLoop);
+    if (phase === 'playing' || phase === 'dying') {
+      loopRef.current = createGameLoop(updateGame, render);
+      loopRef.current.start();
     }
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      loopRef.current?.stop();
     };
-  }, [gameStarted, gameOver, gameLoop]);
+  }, [phase, updateGame, render]);
+
+  // Compact keeps only what matters mid-run
+  const hudItems = [
+    { label: 'Score', value: score, className: 'text-primary', compact: true },
+    { label: 'Distance', value: `${distance}m`, className: 'text-accent', compact: true },
+    { label: 'Time', value: `${timeAlive}s`, className: 'text-secondary', compact: false },
+    { label: 'Best', value: highScore, className: 'text-primary', compact: false },
+    { label: 'Orbs', value: `${collected}${level ? `/${level.level.collectibles.length}` : ''}`, className: 'text-accent', compact: false },
+    ...(level ? [{ label: 'Lives', value: level.level.lives - hits, className: 'text-destructive', compact: true }] : []),
+    ...(ghostDelta !== null ? [{
+      label: 'vs Ghost',
+      value: `${ghostDelta >= 0 ? '+' : ''}${ghostDelta}m`,
+      className: ghostDelta >= 0 ? 'text-secondary' : 'text-destructive',
+      compact: true
+    }] : [])
+  ].filter(item => settings.hudLayout === 'full' || (settings.hudLayout === 'compact' && item.compact));
 
   return (
-    <div className="fixed inset-0 game-bg flex flex-col">
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      className="fixed inset-0 game-bg flex flex-col outline-none"
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+    >
       {/* Header */}
       <div className="flex-shrink-0 p-4">
         <div className="text-center">
           <h1 className="text-2xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-2">
-            Gravity Runner
+            {title}
           </h1>
-          <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4 text-xs sm:text-sm">
-            <div className="text-center">
-              <div className="text-primary font-bold text-lg">{score}</div>
-              <div className="text-muted-foreground">Score</div>
+          {hudItems.length > 0 && (
+            <div className={`grid grid-cols-2 ${HUD_COLUMNS[hudItems.length]} gap-2 sm:gap-4 text-xs sm:text-sm`}>
+              {hudItems.map(item => (
+                <div key={item.label} className="text-center">
+                  <div className={`${item.className} font-bold text-lg`}>{item.value}</div>
+                  <div className="text-muted-foreground">{item.label}</div>
+                </div>
+              ))}
             </div>
-            <div className="text-center">
-              <div className="text-accent font-bold text-lg">{distance}m</div>
-              <div className="text-muted-foreground">Distance</div>
-            </div>
-            <div className="text-center">
-              <div className="text-secondary font-bold text-lg">{timeAlive}s</div>
-              <div className="text-muted-foreground">Time</div>
-            </div>
-            <div className="text-center">
-              <div className="text-primary font-bold text-lg">{highScore}</div>
-              <div className="text-muted-foreground">Best</div>
-            </div>
-          </div>
+          )}
         </div>
       </div>
 
@@ -525,11 +578,85 @@ const GravityRunner = () => {
             style={{ touchAction: 'none' }}
           />
           
-          {!gameStarted && !gameOver && (
-            <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-lg">
+          {/* Active power-ups with the seconds they have left */}
+          {(phase === 'playing' || phase === 'paused' || phase === 'countdown') && (
+            <div className="absolute top-2 left-2 flex flex-col items-start gap-1 pointer-events-none">
+              {POWER_UP_KINDS.filter(kind => effects[kind] > 0).map(kind => (
+                <div
+                  key={kind}
+                  className="rounded-full border bg-background/60 px-2 py-0.5 text-xs font-bold"
+                  style={{ color: POWER_UPS[kind].color, borderColor: POWER_UPS[kind].color, boxShadow: `0 0 8px ${POWER_UPS[kind].color}` }}
+                >
+                  {POWER_UPS[kind].label} {Math.ceil(effects[kind])}s
+                </div>
+              ))}
+            </div>
+          )}
+
+          {phase === 'playing' && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="absolute top-2 right-2"
+              onClick={pauseGame}
+              aria-label="Pause"
+            >
+              <Pause />
+            </Button>
+          )}
+
+          {(phase === 'title' || phase === 'results') && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="absolute top-2 right-2 z-10"
+              onClick={() => setSettingsOpen(true)}
+              aria-label="Settings"
+            >
+              <SettingsIcon />
+            </Button>
+          )}
+
+          {phase === 'paused' && (
+            <div data-menu className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-lg">
+              <div className="text-center p-4">
+                <h2 className="text-2xl sm:text-3xl font-bold text-primary mb-4">Paused</h2>
+                <p className="text-sm sm:text-base text-muted-foreground mb-4">Press {describeBinding(settings.keyBindings.pause)} to resume</p>
+                <div className="flex flex-col gap-2">
+                  <Button onClick={resumeGame} variant="default" className="neon-glow">
+                    Resume
+                  </Button>
+                  <Button onClick={startGame} variant="outline">
+                    Restart
+                  </Button>
+                  <Button onClick={() => setSettingsOpen(true)} variant="outline">
+                    Settings
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {phase === 'countdown' && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+              <div key={countdown} className="text-6xl font-bold text-primary animate-in zoom-in-50 fade-in">
+                {countdown}
+              </div>
+            </div>
+          )}
+
+          {phase === 'title' && (
+            <div data-menu className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm rounded-lg">
               <div className="text-center p-4">
                 <h2 className="text-xl sm:text-2xl font-bold text-primary mb-4">Ready to Run?</h2>
-                <p className="text-sm sm:text-base text-muted-foreground mb-4">Press SPACE or tap to flip gravity!</p>
+                <p className="text-sm sm:text-base text-muted-foreground mb-4">Press {describeBinding(settings.keyBindings.flip)} or tap to flip gravity!</p>
+                {subtitle && <p className="text-sm text-accent font-bold mb-4">{subtitle}</p>}
+                {isEndless && bestReplay && (
+                  <div className="flex items-center justify-center gap-2 mb-4">
+                    <Switch id="race-ghost" checked={racingGhost} onCheckedChange={setRacingGhost} />
+                    <Label htmlFor="race-ghost">Race your best ({bestReplay.distance}m)</Label>
+                  </div>
+                )}
                 <Button onClick={startGame} variant="default" className="neon-glow">
                   Start Game
                 </Button>
@@ -537,18 +664,57 @@ const GravityRunner = () => {
             </div>
           )}
 
-          {gameOver && (
-            <div className="absolute inset-0 flex items-center justify-center bg-background/90 backdrop-blur-sm rounded-lg">
+          {phase === 'results' && (
+            <div data-menu className="absolute inset-0 flex items-center justify-center bg-background/90 backdrop-blur-sm rounded-lg">
               <div className="text-center p-4">
-                <h2 className="text-2xl sm:text-3xl font-bold text-destructive mb-2">Game Over!</h2>
+                {stars?.completed ? (
+                  <h2 className="text-2xl sm:text-3xl font-bold text-primary mb-2">Level Complete!</h2>
+                ) : (
+                  <h2 className="text-2xl sm:text-3xl font-bold text-destructive mb-2">Game Over!</h2>
+                )}
                 <p className="text-lg sm:text-xl text-primary mb-2">Final Score: {score}</p>
-                {score === highScore && score > 0 && (
+                {stars && (
+                  <div className="flex justify-center gap-3 mb-2 text-xs text-muted-foreground">
+                    {([['completed', 'Cleared'], ['noHit', 'No hits'], ['allCollected', 'All orbs']] as const).map(([key, label]) => (
+                      <div key={key} className="flex flex-col items-center gap-1">
+                        <Star className={stars[key] ? 'fill-accent text-accent' : 'text-muted-foreground'} />
+                        {label}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {death && (
+                  <p className="text-sm text-muted-foreground mb-2">Hit a {describeObstacle(death.obstacle)}</p>
+                )}
+                <p className="text-sm text-accent mb-2">
+                  +{collected} {collected === 1 ? 'orb' : 'orbs'} · {wallet} in the bank
+                </p>
+                {isEndless && score === highScore && score > 0 && (
                   <p className="text-accent font-bold mb-4">🎉 NEW HIGH SCORE! 🎉</p>
                 )}
-                <p className="text-sm sm:text-base text-muted-foreground mb-4">Press SPACE or tap to play again!</p>
-                <Button onClick={startGame} variant="default" className="neon-glow">
-                  Play Again
-                </Button>
+                <p className="text-sm sm:text-base text-muted-foreground mb-4">Press {describeBinding(settings.keyBindings.flip)} or tap to play again!</p>
+                {subtitle && <p className="text-sm text-accent font-bold mb-4">{subtitle}</p>}
+                {isEndless && bestReplay && (
+                  <div className="flex items-center justify-center gap-2 mb-4">
+                    <Switch id="race-ghost" checked={racingGhost} onCheckedChange={setRacingGhost} />
+                    <Label htmlFor="race-ghost">Race your best ({bestReplay.distance}m)</Label>
+                  </div>
+                )}
+                <div className="flex flex-wrap justify-center gap-2">
+                  <Button onClick={startGame} variant="default" className="neon-glow">
+                    Play Again
+                  </Button>
+                  {stars?.completed && nextPath && (
+                    <Button asChild variant="outline">
+                      <Link to={nextPath}>Next Level</Link>
+                    </Button>
+                  )}
+                  {lastReplayId && (
+                    <Button asChild variant="outline">
+                      <Link to={`/replays/${lastReplayId}`}>Watch Replay</Link>
+                    </Button>
+                  )}
+                </div>
               </div>
             </div>
           )}
@@ -558,9 +724,37 @@ const GravityRunner = () => {
       {/* Footer Instructions */}
       <div className="flex-shrink-0 p-2">
         <div className="text-center text-xs sm:text-sm text-muted-foreground">
-          <p>Use SPACE or tap to flip gravity • Avoid obstacles • Score points!</p>
+          <p>
+            Use {describeBinding(settings.keyBindings.flip)} or tap to flip gravity • {describeBinding(settings.keyBindings.pause)} to pause
+            {' '}• Avoid obstacles • Score points!
+          </p>
+          {isEndless ? (
+            <p className="space-x-3">
+              <Link to="/daily" className="underline-offset-4 hover:text-primary hover:underline">Daily Challenge</Link>
+              <Link to="/campaign" className="underline-offset-4 hover:text-primary hover:underline">Campaign</Link>
+              <Link to="/replays" className="underline-offset-4 hover:text-primary hover:underline">Replays</Link>
+              <Link to="/leaderboard" className="underline-offset-4 hover:text-primary hover:underline">Leaderboard</Link>
+              <Link to="/stats" className="underline-offset-4 hover:text-primary hover:underline">Stats</Link>
+              <Link to="/achievements" className="underline-offset-4 hover:text-primary hover:underline">Achievements</Link>
+              <Link to="/shop" className="underline-offset-4 hover:text-primary hover:underline">Shop</Link>
+              <Link to="/editor" className="underline-offset-4 hover:text-primary hover:underline">Level Editor</Link>
+            </p>
+          ) : (
+            <Link to={`/${mode}`} className="underline-offset-4 hover:text-primary hover:underline">Back</Link>
+          )}
         </div>
       </div>
+
+      <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+
+      {pendingEntry && phase === 'results' && (
+        <LeaderboardNameDialog
+          score={pendingEntry.score}
+          canPostOnline={!pendingEntry.practice}
+          onSubmit={saveLeaderboardEntry}
+          onSkip={() => setPendingEntry(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSettings } from "@/hooks/use-settings";
+import {
+  bindKey,
+  CONTROL_ACTIONS,
+  DEFAULT_BINDINGS,
+  describeKey,
+  findConflict,
+  type ControlAction
+} from "@/lib/controls";
+import { updateSettings } from "@/lib/settings";
+
+interface Listening {
+  action: ControlAction;
+  slot: 0 | 1;
+}
+
+// Click a slot, then press the key to put in it
+const KeyBindingsEditor = () => {
+  const { keyBindings } = useSettings();
+  const [listening, setListening] = useState<Listening | null>(null);
+  const [conflict, setConflict] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    // Captured on the window so nothing else, like the dialog closing on Escape, sees the press
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const clash = findConflict(keyBindings, listening.action, e.code);
+      if (clash) {
+        const label = CONTROL_ACTIONS.find(({ action }) => action === clash)?.label;
+        setConflict(`${describeKey(e.code)} is already used for "${label}"`);
+      } else {
+        updateSettings({ keyBindings: bindKey(keyBindings, listening.action, listening.slot, e.code) });
+        setConflict(null);
+      }
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listening, keyBindings]);
+
+  const slotLabel = (action: ControlAction, slot: 0 | 1) => {
+    if (listening?.action === action && listening.slot === slot) return 'Press a key…';
+    const code = keyBindings[action][slot];
+    return code ? describeKey(code) : '—';
+  };
+
+  return (
+    <div className="space-y-2">
+      {CONTROL_ACTIONS.map(({ action, label }) => (
+        <div key={action} className="flex items-center justify-between gap-2 text-sm">
+          <span className="shrink-0">{label}</span>
+          <div className="flex items-center gap-1">
+            {([0, 1] as const).map(slot => (
+              <Button
+                key={slot}
+                size="sm"
+                variant={listening?.action === action && listening.slot === slot ? 'default' : 'outline'}
+                className="w-20"
+                onClick={() => {
+                  setConflict(null);
+                  setListening({ action, slot });
+                }}
+                aria-label={`${slot === 0 ? 'Primary' : 'Secondary'} key for ${label}`}
+              >
+                {slotLabel(action, slot)}
+              </Button>
+            ))}
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              disabled={!keyBindings[action][1]}
+              onClick={() => updateSettings({ keyBindings: bindKey(keyBindings, action, 1, null) })}
+              aria-label={`Clear secondary key for ${label}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      {conflict && <p role="alert" className="text-xs text-destructive">{conflict}</p>}
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => {
+          setConflict(null);
+          updateSettings({ keyBindings: DEFAULT_BINDINGS });
+        }}
+      >
+        Reset controls
+      </Button>
+    </div>
+  );
+};
+
+export default KeyBindingsEditor;
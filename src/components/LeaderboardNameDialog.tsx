@@ -0,0 +1,82 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { loadPlayerName } from "@/lib/leaderboard";
+
+const nameSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, "Enter a name")
+    .max(16, "Keep it to 16 characters")
+    .regex(/^[\w .'-]+$/, "Letters, numbers, spaces and . ' - only"),
+  online: z.boolean()
+});
+
+interface LeaderboardNameDialogProps {
+  score: number;
+  // Offers to post the run online as well
+  canPostOnline?: boolean;
+  onSubmit: (name: string, online: boolean) => void;
+  onSkip: () => void;
+}
+
+// Asks for a name to put next to a run that made the leaderboard
+const LeaderboardNameDialog = ({ score, canPostOnline = true, onSubmit, onSkip }: LeaderboardNameDialogProps) => {
+  const form = useForm<z.infer<typeof nameSchema>>({
+    resolver: zodResolver(nameSchema),
+    defaultValues: { name: loadPlayerName(), online: canPostOnline }
+  });
+
+  return (
+    <Dialog open onOpenChange={open => !open && onSkip()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>You made the leaderboard!</DialogTitle>
+          <DialogDescription>{score} points. Who should it be credited to?</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => onSubmit(values.name, values.online))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input autoFocus autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {canPostOnline && (
+              <FormField
+                control={form.control}
+                name="online"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel>Post to the online leaderboard too</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={onSkip}>Skip</Button>
+              <Button type="submit" className="neon-glow">Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeaderboardNameDialog;
@@ -0,0 +1,668 @@
+import { useCallback, useEffect, useRef, useState, type ChangeEvent, type MouseEvent, type PointerEvent } from "react";
+import { Link } from "react-router-dom";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger
+} from "@/components/ui/context-menu";
+import {
+  Menubar,
+  MenubarContent,
+  MenubarItem,
+  MenubarMenu,
+  MenubarSeparator,
+  MenubarShortcut,
+  MenubarTrigger
+} from "@/components/ui/menubar";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LevelPlaytest from "@/components/LevelPlaytest";
+import { DEFAULT_CONFIG } from "@/game/engine";
+import {
+  COLLECTIBLE_RADIUS,
+  createEmptyLevel,
+  getSection,
+  parseLevel,
+  toObstacle,
+  type Level,
+  type LevelCollectible,
+  type LevelObstacle
+} from "@/game/level";
+import { getCeilingY, getGroundY } from "@/game/obstacles";
+import { getPlayerX } from "@/game/physics";
+import { drawObstacle } from "@/game/render";
+import { loadDraftLevel, saveDraftLevel } from "@/lib/levels";
+
+const config = DEFAULT_CONFIG;
+// Canvas pixels per world pixel
+const SCALE = 0.75;
+// Positions and sizes snap to this many world pixels
+const SNAP = 5;
+// How close to an edge counts as grabbing it for a resize
+const HANDLE_SIZE = 8;
+const MIN_SIZE = 10;
+
+type DragMode = 'move' | 'width' | 'height';
+
+interface Selection {
+  kind: 'obstacle' | 'collectible';
+  index: number;
+}
+
+type Drag =
+  | { kind: 'obstacle'; index: number; mode: DragMode; startX: number; startY: number; original: LevelObstacle }
+  | { kind: 'collectible'; index: number; startX: number; startY: number; original: LevelCollectible };
+
+// Where a context menu was opened, in world coordinates
+interface MenuTarget {
+  x: number;
+  y: number;
+  target: Selection | null;
+}
+
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const maxHeight = getGroundY(config) - getCeilingY(config);
+
+const getBounds = (piece: LevelObstacle) => toObstacle(piece, config, 0, 0);
+
+// Collectibles are small and drawn on top, so they win over the obstacles around them
+const hitTest = (level: Level, x: number, y: number): Selection | null => {
+  const orb = level.collectibles.findIndex(piece => Math.hypot(piece.x - x, piece.y - y) <= COLLECTIBLE_RADIUS + HANDLE_SIZE / 2);
+  if (orb !== -1) return { kind: 'collectible', index: orb };
+
+  for (let i = level.obstacles.length - 1; i >= 0; i--) {
+    const bounds = getBounds(level.obstacles[i]);
+    if (x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height) {
+      return { kind: 'obstacle', index: i };
+    }
+  }
+  return null;
+};
+
+const isSelected = (selected: Selection | null, kind: Selection['kind'], index: number) =>
+  selected?.kind === kind && selected.index === index;
+
+// Which part of an obstacle a point grabs: its right edge, its free end or the body
+const getDragMode = (piece: LevelObstacle, x: number, y: number): DragMode => {
+  const bounds = getBounds(piece);
+  if (bounds.x + bounds.width - x <= HANDLE_SIZE) return 'width';
+  const freeEnd = piece.anchor === 'top' ? bounds.y + bounds.height : bounds.y;
+  return Math.abs(y - freeEnd) <= HANDLE_SIZE ? 'height' : 'move';
+};
+
+const CURSORS: Record<DragMode, string> = { move: 'move', width: 'ew-resize', height: 'ns-resize' };
+
+// Draws the stretch of the level in view, where `left` is how far into the course the canvas sits
+// in canvas pixels
+const drawLevel = (ctx: CanvasRenderingContext2D, level: Level, selected: Selection | null, left: number) => {
+  const from = left / SCALE;
+  const to = Math.min(level.length + config.width, from + ctx.canvas.width / SCALE);
+  const width = to - from;
+  ctx.save();
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.scale(SCALE, SCALE);
+  ctx.translate(-from, 0);
+
+  ctx.fillStyle = 'hsl(220, 25%, 5%)';
+  ctx.fillRect(from, 0, width, config.height);
+
+  // Distance grid, labelled every 500px
+  ctx.font = '14px sans-serif';
+  for (let x = Math.floor(from / 100) * 100; x <= to; x += 100) {
+    ctx.fillStyle = x % 500 === 0 ? 'hsl(220, 15%, 25%)' : 'hsl(220, 15%, 12%)';
+    ctx.fillRect(x, 0, 1, config.height);
+    if (x % 500 === 0) {
+      ctx.fillStyle = 'hsl(220, 15%, 45%)';
+      ctx.fillText(`${x}`, x + 4, getCeilingY(config) + 18);
+    }
+  }
+
+  ctx.fillStyle = 'hsl(200, 80%, 50%)';
+  ctx.fillRect(from, getGroundY(config), width, config.boundary);
+  ctx.fillRect(from, 0, width, getCeilingY(config));
+
+  // Section boundaries with their settings
+  level.sections.forEach(section => {
+    ctx.fillStyle = 'hsl(45, 100%, 60%)';
+    ctx.fillRect(section.start, 0, 2, config.height);
+    ctx.fillStyle = 'hsl(220, 25%, 5%)';
+    ctx.fillText(`speed ${section.speed} · gravity ${section.gravity}`, section.start + 6, 30);
+  });
+
+  // Player start and end of the course
+  ctx.fillStyle = 'hsl(280, 100%, 70%, 0.5)';
+  ctx.fillRect(getPlayerX(config), getGroundY(config) - config.playerSize, config.playerSize, config.playerSize);
+  ctx.fillStyle = 'hsl(120, 80%, 50%)';
+  ctx.fillRect(level.length, getCeilingY(config), 3, maxHeight);
+
+  level.obstacles.forEach((piece, i) => {
+    if (piece.x + piece.width < from || piece.x > to) return;
+    drawObstacle(ctx, getBounds(piece), isSelected(selected, 'obstacle', i) ? 'hsl(45, 100%, 60%)' : undefined);
+  });
+
+  level.collectibles.forEach((piece, i) => {
+    if (piece.x + COLLECTIBLE_RADIUS < from || piece.x - COLLECTIBLE_RADIUS > to) return;
+    ctx.fillStyle = 'hsl(50, 100%, 60%)';
+    ctx.beginPath();
+    ctx.arc(piece.x, piece.y, COLLECTIBLE_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    if (isSelected(selected, 'collectible', i)) {
+      ctx.strokeStyle = 'hsl(0, 0%, 100%)';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  });
+
+  ctx.restore();
+};
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min?: number;
+  onChange: (value: number) => void;
+}
+
+const NumberField = ({ id, label, value, min = 0, onChange }: NumberFieldProps) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs">{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={min}
+      value={value}
+      onChange={e => {
+        const next = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(next) && next >= min) onChange(next);
+      }}
+    />
+  </div>
+);
+
+const LevelEditor = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Spans the whole course so it scrolls, while the canvas only covers the part in view
+  const courseRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [level, setLevel] = useState<Level>(() => loadDraftLevel() ?? createEmptyLevel(config));
+  const [selected, setSelected] = useState<Selection | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [menuTarget, setMenuTarget] = useState<MenuTarget | null>(null);
+  // World position to play-test from, while the play-test is open
+  const [playFrom, setPlayFrom] = useState<number | null>(null);
+  const selectedPiece = selected?.kind === 'obstacle' ? level.obstacles[selected.index] : null;
+  const selectedOrb = selected?.kind === 'collectible' ? level.collectibles[selected.index] : null;
+  // What the context menu was opened on, if anything
+  const menuSelection = menuTarget?.target ?? null;
+  const menuObstacle = menuSelection?.kind === 'obstacle' ? menuSelection : null;
+  // Scroll position and width of the visible area, in canvas pixels
+  const [view, setView] = useState({ left: 0, width: config.width * SCALE });
+  const courseWidth = (level.length + config.width) * SCALE;
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const update = () => {
+      const { paddingLeft, paddingRight } = getComputedStyle(scroller);
+      // Leaves room for the canvas's own border
+      const canvas = canvasRef.current;
+      const border = canvas ? canvas.offsetWidth - canvas.clientWidth : 0;
+      const width = scroller.clientWidth - parseFloat(paddingLeft) - parseFloat(paddingRight) - border;
+      setView({ left: scroller.scrollLeft, width });
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    scroller.addEventListener('scroll', update);
+    return () => {
+      observer.disconnect();
+      scroller.removeEventListener('scroll', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const course = courseRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !course || !ctx) return;
+    // The canvas sticks to the left of the view, so this is how far along the course it is
+    const left = canvas.getBoundingClientRect().left - course.getBoundingClientRect().left;
+    drawLevel(ctx, level, selected, left);
+  }, [level, selected, view]);
+
+  const updateObstacle = useCallback((index: number, patch: Partial<LevelObstacle>) => {
+    setLevel(level => ({
+      ...level,
+      obstacles: level.obstacles.map((piece, i) => i === index ? { ...piece, ...patch } : piece)
+    }));
+  }, []);
+
+  const updateCollectible = useCallback((index: number, patch: Partial<LevelCollectible>) => {
+    setLevel(level => ({
+      ...level,
+      collectibles: level.collectibles.map((piece, i) => i === index ? { ...piece, ...patch } : piece)
+    }));
+  }, []);
+
+  const addObstacle = (piece: LevelObstacle) => {
+    setLevel({ ...level, obstacles: [...level.obstacles, piece] });
+    setSelected({ kind: 'obstacle', index: level.obstacles.length });
+  };
+
+  const addCollectible = (x: number, y: number) => {
+    const piece = { x: snap(x), y: clamp(snap(y), getCeilingY(config), getGroundY(config)) };
+    setLevel({ ...level, collectibles: [...level.collectibles, piece] });
+    setSelected({ kind: 'collectible', index: level.collectibles.length });
+  };
+
+  const deleteSelection = useCallback((target: Selection) => {
+    setLevel(level => target.kind === 'obstacle'
+      ? { ...level, obstacles: level.obstacles.filter((_, i) => i !== target.index) }
+      : { ...level, collectibles: level.collectibles.filter((_, i) => i !== target.index) });
+    setSelected(null);
+  }, []);
+
+  const duplicateSelection = (target: Selection) => {
+    if (target.kind === 'obstacle') {
+      const piece = level.obstacles[target.index];
+      addObstacle({ ...piece, x: piece.x + piece.width + 100 });
+    } else {
+      const piece = level.collectibles[target.index];
+      addCollectible(piece.x + 50, piece.y);
+    }
+  };
+
+  // Where a play-test should start to lead up to `target`
+  const getPlayFrom = (target: Selection) =>
+    (target.kind === 'obstacle' ? level.obstacles[target.index].x : level.collectibles[target.index].x) - config.width / 2;
+
+  // Middle of what is currently scrolled into view
+  const getViewCenter = () => {
+    const scroller = scrollRef.current;
+    return scroller ? snap((scroller.scrollLeft + scroller.clientWidth / 2) / SCALE) : config.width;
+  };
+
+  const createObstacle = (shape: LevelObstacle['shape'], x: number, anchor: LevelObstacle['anchor'] = 'bottom') =>
+    addObstacle({ shape, anchor, x: snap(x), width: shape === 'spike' ? 30 : 20, height: shape === 'spike' ? 40 : 120 });
+
+  const addSection = (start: number) => {
+    // The new section carries on with the settings in effect there until edited
+    const sections = [...level.sections, { ...getSection(level, start), start: snap(start) }];
+    setLevel({ ...level, sections: sections.sort((a, b) => a.start - b.start) });
+  };
+
+  const updateSection = (index: number, patch: Partial<Level['sections'][number]>) => {
+    setLevel(level => ({
+      ...level,
+      sections: level.sections.map((section, i) => i === index ? { ...section, ...patch } : section)
+    }));
+  };
+
+  const removeSection = (index: number) => {
+    setLevel(level => ({ ...level, sections: level.sections.filter((_, i) => i !== index) }));
+  };
+
+  const toWorld = (e: PointerEvent<HTMLCanvasElement> | MouseEvent<HTMLCanvasElement>) => {
+    const rect = courseRef.current?.getBoundingClientRect() ?? e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / SCALE, y: (e.clientY - rect.top) / SCALE };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (e.button !== 0) return;
+    const { x, y } = toWorld(e);
+    const target = hitTest(level, x, y);
+    setSelected(target);
+    if (!target) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (target.kind === 'obstacle') {
+      const original = level.obstacles[target.index];
+      setDrag({ ...target, kind: 'obstacle', mode: getDragMode(original, x, y), startX: x, startY: y, original });
+    } else {
+      setDrag({ ...target, kind: 'collectible', startX: x, startY: y, original: level.collectibles[target.index] });
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = toWorld(e);
+    if (!drag) {
+      const target = hitTest(level, x, y);
+      e.currentTarget.style.cursor = !target
+        ? 'crosshair'
+        : target.kind === 'collectible' ? 'move' : CURSORS[getDragMode(level.obstacles[target.index], x, y)];
+      return;
+    }
+
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    if (drag.kind === 'collectible') {
+      updateCollectible(drag.index, {
+        x: Math.max(0, snap(drag.original.x + dx)),
+        y: clamp(snap(drag.original.y + dy), getCeilingY(config), getGroundY(config))
+      });
+      return;
+    }
+
+    const { original } = drag;
+    if (drag.mode === 'move') {
+      // Dragging across the middle moves the obstacle to the other boundary
+      updateObstacle(drag.index, {
+        x: Math.max(0, snap(original.x + dx)),
+        anchor: y < config.height / 2 ? 'top' : 'bottom'
+      });
+    } else if (drag.mode === 'width') {
+      updateObstacle(drag.index, { width: Math.max(MIN_SIZE, snap(original.width + dx)) });
+    } else {
+      const grown = original.anchor === 'top' ? original.height + dy : original.height - dy;
+      updateObstacle(drag.index, { height: clamp(snap(grown), MIN_SIZE, maxHeight) });
+    }
+  };
+
+  const handleContextMenu = (e: MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toWorld(e);
+    const target = hitTest(level, x, y);
+    setMenuTarget({ x, y, target });
+    setSelected(target);
+  };
+
+  const handleDoubleClick = (e: MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = toWorld(e);
+    if (hitTest(level, x, y) === null) createObstacle('rect', x, y < config.height / 2 ? 'top' : 'bottom');
+  };
+
+  const newLevel = () => {
+    setLevel(createEmptyLevel(config));
+    setSelected(null);
+  };
+
+  const save = useCallback(() => {
+    saveDraftLevel(level);
+    toast.success("Level saved");
+  }, [level]);
+
+  const exportLevel = () => {
+    const blob = new Blob([JSON.stringify(level, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.name.trim().replace(/\W+/g, '-').toLowerCase() || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLevel(parseLevel(JSON.parse(await file.text())));
+      setSelected(null);
+      toast.success(`Opened ${file.name}`);
+    } catch {
+      toast.error(`${file.name} is not a valid level`);
+    }
+  };
+
+  // Editor shortcuts, ignored while typing in the inspector
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.code === 'KeyS') {
+        e.preventDefault();
+        save();
+        return;
+      }
+      if (playFrom !== null || e.target instanceof HTMLInputElement) return;
+      if ((e.code === 'Delete' || e.code === 'Backspace') && selected) {
+        deleteSelection(selected);
+      } else if (e.code === 'Escape') {
+        setSelected(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [save, deleteSelection, selected, playFrom]);
+
+  return (
+    <div className="fixed inset-0 game-bg flex flex-col">
+      <div className="flex items-center gap-2 p-2 border-b border-border">
+        <Menubar>
+          <MenubarMenu>
+            <MenubarTrigger>File</MenubarTrigger>
+            <MenubarContent>
+              <MenubarItem onSelect={newLevel}>New</MenubarItem>
+              <MenubarItem onSelect={() => fileRef.current?.click()}>Open JSON…</MenubarItem>
+              <MenubarSeparator />
+              <MenubarItem onSelect={save}>
+                Save <MenubarShortcut>Ctrl+S</MenubarShortcut>
+              </MenubarItem>
+              <MenubarItem onSelect={exportLevel}>Export JSON</MenubarItem>
+            </MenubarContent>
+          </MenubarMenu>
+          <MenubarMenu>
+            <MenubarTrigger>Edit</MenubarTrigger>
+            <MenubarContent>
+              <MenubarItem onSelect={() => createObstacle('rect', getViewCenter())}>Add Wall</MenubarItem>
+              <MenubarItem onSelect={() => createObstacle('spike', getViewCenter())}>Add Spike</MenubarItem>
+              <MenubarItem onSelect={() => addCollectible(getViewCenter(), config.height / 2)}>Add Orb</MenubarItem>
+              <MenubarItem onSelect={() => addSection(getViewCenter())}>Add Section</MenubarItem>
+              <MenubarSeparator />
+              <MenubarItem disabled={!selected} onSelect={() => selected && duplicateSelection(selected)}>
+                Duplicate
+              </MenubarItem>
+              <MenubarItem disabled={!selected} onSelect={() => selected && deleteSelection(selected)}>
+                Delete <MenubarShortcut>Del</MenubarShortcut>
+              </MenubarItem>
+            </MenubarContent>
+          </MenubarMenu>
+          <MenubarMenu>
+            <MenubarTrigger>Play</MenubarTrigger>
+            <MenubarContent>
+              <MenubarItem onSelect={() => setPlayFrom(0)}>From Start</MenubarItem>
+              <MenubarItem onSelect={() => setPlayFrom(getViewCenter() - config.width / 2)}>From View</MenubarItem>
+              <MenubarItem disabled={!selected} onSelect={() => selected && setPlayFrom(getPlayFrom(selected))}>
+                From Selection
+              </MenubarItem>
+            </MenubarContent>
+          </MenubarMenu>
+        </Menubar>
+        <span className="flex-1 truncate text-sm text-muted-foreground">{level.name}</span>
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">Back to Game</Link>
+        </Button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={openFile} />
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+        <ResizablePanel defaultSize={75} minSize={40}>
+          <div ref={scrollRef} className="h-full overflow-auto p-2">
+            <div ref={courseRef} style={{ width: courseWidth }}>
+              <ContextMenu>
+                <ContextMenuTrigger asChild>
+                  <canvas
+                    ref={canvasRef}
+                    width={Math.max(1, Math.min(courseWidth, view.width))}
+                    height={config.height * SCALE}
+                    className="sticky left-2 rounded-lg border border-border"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => setDrag(null)}
+                    onContextMenu={handleContextMenu}
+                    onDoubleClick={handleDoubleClick}
+                    style={{ touchAction: 'none' }}
+                  />
+                </ContextMenuTrigger>
+                <ContextMenuContent>
+                  {menuSelection ? (
+                    <>
+                      <ContextMenuItem onSelect={() => duplicateSelection(menuSelection)}>Duplicate</ContextMenuItem>
+                      {menuObstacle && (
+                        <>
+                          <ContextMenuItem
+                            onSelect={() => updateObstacle(menuObstacle.index, {
+                              anchor: level.obstacles[menuObstacle.index].anchor === 'top' ? 'bottom' : 'top'
+                            })}
+                          >
+                            Flip to {level.obstacles[menuObstacle.index].anchor === 'top' ? 'Floor' : 'Ceiling'}
+                          </ContextMenuItem>
+                          <ContextMenuItem
+                            onSelect={() => updateObstacle(menuObstacle.index, {
+                              shape: level.obstacles[menuObstacle.index].shape === 'spike' ? 'rect' : 'spike'
+                            })}
+                          >
+                            Make {level.obstacles[menuObstacle.index].shape === 'spike' ? 'Wall' : 'Spike'}
+                          </ContextMenuItem>
+                        </>
+                      )}
+                      <ContextMenuItem onSelect={() => setPlayFrom(getPlayFrom(menuSelection))}>Play From Here</ContextMenuItem>
+                      <ContextMenuSeparator />
+                      <ContextMenuItem className="text-destructive" onSelect={() => deleteSelection(menuSelection)}>
+                        Delete
+                      </ContextMenuItem>
+                    </>
+                  ) : (
+                    <>
+                      <ContextMenuItem onSelect={() => menuTarget && createObstacle('rect', menuTarget.x, menuTarget.y < config.height / 2 ? 'top' : 'bottom')}>
+                        Add Wall Here
+                      </ContextMenuItem>
+                      <ContextMenuItem onSelect={() => menuTarget && createObstacle('spike', menuTarget.x, menuTarget.y < config.height / 2 ? 'top' : 'bottom')}>
+                        Add Spike Here
+                      </ContextMenuItem>
+                      <ContextMenuItem onSelect={() => menuTarget && addCollectible(menuTarget.x, menuTarget.y)}>Add Orb Here</ContextMenuItem>
+                      <ContextMenuItem onSelect={() => menuTarget && addSection(menuTarget.x)}>Start Section Here</ContextMenuItem>
+                      <ContextMenuSeparator />
+                      <ContextMenuItem onSelect={() => menuTarget && setPlayFrom(menuTarget.x)}>Play From Here</ContextMenuItem>
+                    </>
+                  )}
+                </ContextMenuContent>
+              </ContextMenu>
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Double-click to add a wall • drag to move, drag an edge to resize • right-click for orbs and more
+            </p>
+          </div>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        <ResizablePanel defaultSize={25} minSize={15}>
+          <div className="h-full overflow-y-auto p-4 space-y-6">
+            <section className="space-y-2">
+              <h2 className="font-bold text-primary">Level</h2>
+              <div className="space-y-1">
+                <Label htmlFor="level-name" className="text-xs">Name</Label>
+                <Input id="level-name" value={level.name} onChange={e => setLevel({ ...level, name: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField id="level-length" label="Length" value={level.length} min={1} onChange={length => setLevel({ ...level, length })} />
+                <NumberField id="level-lives" label="Lives" value={level.lives} min={1} onChange={lives => setLevel({ ...level, lives: Math.round(lives) })} />
+              </div>
+            </section>
+
+            {selectedPiece && selected && (
+              <section className="space-y-2">
+                <h2 className="font-bold text-primary">Obstacle</h2>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Shape</Label>
+                    <Select
+                      value={selectedPiece.shape}
+                      onValueChange={shape => updateObstacle(selected.index, { shape: shape as LevelObstacle['shape'] })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="rect">Wall</SelectItem>
+                        <SelectItem value="spike">Spike</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Anchor</Label>
+                    <Select
+                      value={selectedPiece.anchor}
+                      onValueChange={anchor => updateObstacle(selected.index, { anchor: anchor as LevelObstacle['anchor'] })}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="bottom">Floor</SelectItem>
+                        <SelectItem value="top">Ceiling</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <NumberField id="obstacle-x" label="Position" value={selectedPiece.x} onChange={x => updateObstacle(selected.index, { x })} />
+                  <NumberField id="obstacle-width" label="Width" value={selectedPiece.width} min={1} onChange={width => updateObstacle(selected.index, { width })} />
+                  <NumberField
+                    id="obstacle-height"
+                    label="Height"
+                    value={selectedPiece.height}
+                    min={1}
+                    onChange={height => updateObstacle(selected.index, { height: Math.min(maxHeight, height) })}
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={() => deleteSelection(selected)}>
+                  <Trash2 /> Delete
+                </Button>
+              </section>
+            )}
+
+            {selectedOrb && selected && (
+              <section className="space-y-2">
+                <h2 className="font-bold text-primary">Orb</h2>
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField id="orb-x" label="Position" value={selectedOrb.x} onChange={x => updateCollectible(selected.index, { x })} />
+                  <NumberField
+                    id="orb-y"
+                    label="Y"
+                    value={selectedOrb.y}
+                    onChange={y => updateCollectible(selected.index, { y: clamp(y, getCeilingY(config), getGroundY(config)) })}
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={() => deleteSelection(selected)}>
+                  <Trash2 /> Delete
+                </Button>
+              </section>
+            )}
+
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="font-bold text-primary">Sections</h2>
+                <Button variant="ghost" size="sm" onClick={() => addSection((selectedPiece ?? selectedOrb)?.x ?? getViewCenter())}>Add</Button>
+              </div>
+              {level.sections.map((section, i) => (
+                <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2">
+                  <NumberField id={`section-start-${i}`} label="Start" value={section.start} onChange={start => updateSection(i, { start })} />
+                  <NumberField id={`section-speed-${i}`} label="Speed" value={section.speed} min={1} onChange={speed => updateSection(i, { speed })} />
+                  <NumberField id={`section-gravity-${i}`} label="Gravity" value={section.gravity} min={1} onChange={gravity => updateSection(i, { gravity })} />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={level.sections.length === 1}
+                    onClick={() => removeSection(i)}
+                    aria-label="Delete section"
+                  >
+                    <Trash2 />
+                  </Button>
+                </div>
+              ))}
+            </section>
+          </div>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+
+      {playFrom !== null && (
+        <LevelPlaytest level={level} startAt={Math.max(0, playFrom)} onClose={() => setPlayFrom(null)} />
+      )}
+    </div>
+  );
+};
+
+export default LevelEditor;
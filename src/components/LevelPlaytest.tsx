@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { createLevelGame, interpolate, step } from "@/game/engine";
+import type { Level } from "@/game/level";
+import { createGameLoop } from "@/game/loop";
+import { DEATH_DURATION } from "@/game/phase";
+import { drawGame } from "@/game/render";
+import type { GameState } from "@/game/types";
+import { useSettings } from "@/hooks/use-settings";
+import { describeBinding, getAction } from "@/lib/controls";
+
+interface LevelPlaytestProps {
+  level: Level;
+  // World position the player starts at
+  startAt: number;
+  onClose: () => void;
+}
+
+type PlaytestStatus = 'running' | 'crashed' | 'cleared';
+
+// Plays the level being edited in a dialog, restarting from the same point after every attempt
+const LevelPlaytest = ({ level, startAt, onClose }: LevelPlaytestProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gameState = useRef<GameState>(createLevelGame(level, {}, startAt));
+  const previousState = useRef(gameState.current);
+  const flipHeld = useRef(false);
+  const crashedAt = useRef(0);
+  const [status, setStatus] = useState<PlaytestStatus>('running');
+  const [attempt, setAttempt] = useState(0);
+  const { keyBindings } = useSettings();
+
+  const restart = useCallback(() => {
+    gameState.current = createLevelGame(level, {}, startAt);
+    previousState.current = gameState.current;
+    flipHeld.current = false;
+    setStatus('running');
+    setAttempt(attempt => attempt + 1);
+  }, [level, startAt]);
+
+  useEffect(() => {
+    const tick = () => {
+      previousState.current = gameState.current;
+      const state = step(gameState.current, { flip: flipHeld.current });
+      gameState.current = state;
+
+      if (state.events.some(event => event.type === 'crash')) {
+        crashedAt.current = performance.now();
+        setStatus('crashed');
+      } else if (state.events.some(event => event.type === 'finish')) {
+        setStatus('cleared');
+      }
+    };
+
+    const render = (alpha: number) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const state = gameState.current;
+      const deathProgress = state.death
+        ? Math.min(1, (performance.now() - crashedAt.current) / DEATH_DURATION)
+        : undefined;
+      drawGame(ctx, interpolate(previousState.current, state, alpha), { deathProgress });
+    };
+
+    if (status === 'cleared') {
+      render(1);
+      return;
+    }
+    const loop = createGameLoop(tick, render);
+    loop.start();
+    return () => loop.stop();
+  }, [status, attempt]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const action = getAction(keyBindings, e.code);
+      if (action === 'restart') {
+        e.preventDefault();
+        if (!e.repeat) restart();
+        return;
+      }
+      if (action !== 'flip') return;
+      e.preventDefault();
+      if (status === 'running') {
+        flipHeld.current = true;
+      } else if (!e.repeat) {
+        restart();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (getAction(keyBindings, e.code) === 'flip') flipHeld.current = false;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [status, restart, keyBindings]);
+
+  const handlePointerDown = () => {
+    if (status === 'running') {
+      flipHeld.current = true;
+    } else {
+      restart();
+    }
+  };
+
+  const { width, height } = gameState.current.config;
+  const flipKeys = describeBinding(keyBindings.flip);
+
+  return (
+    <Dialog open onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Play-test: {level.name}</DialogTitle>
+          <DialogDescription>
+            {status === 'running' && `${flipKeys} or tap to flip gravity • Esc to go back to editing`}
+            {status === 'crashed' && `Crashed! ${flipKeys} or tap to try again`}
+            {status === 'cleared' && `Course cleared! ${flipKeys} or tap to run it again`}
+          </DialogDescription>
+        </DialogHeader>
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="w-full aspect-[9/16] max-h-[70vh] object-contain border border-border rounded-lg game-glow bg-game-bg"
+          onPointerDown={handlePointerDown}
+          onPointerUp={() => { flipHeld.current = false; }}
+          style={{ touchAction: 'none' }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LevelPlaytest;
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useScoresAroundMe, useTopScores } from "@/hooks/use-leaderboard";
+import { getPlayerId, type LeaderboardPeriod, type OnlineEntry } from "@/lib/leaderboardApi";
+import type { Difficulty, GameMode } from "@/game/types";
+
+const MODES: { value: GameMode; label: string }[] = [
+  { value: 'endless', label: 'Endless' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'campaign', label: 'Campaign' }
+];
+
+const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'hard', label: 'Hard' }
+];
+
+const PERIODS: { value: LeaderboardPeriod; label: string }[] = [
+  { value: 'day', label: 'Today' },
+  { value: 'week', label: 'This week' },
+  { value: 'all', label: 'All time' }
+];
+
+interface EntryTableProps {
+  entries: OnlineEntry[] | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  empty: string;
+}
+
+const EntryTable = ({ entries, isLoading, error, empty }: EntryTableProps) => {
+  if (isLoading) return <Skeleton className="h-32 w-full" />;
+  if (error) return <p className="text-center text-sm text-destructive">Couldn't reach the online leaderboard: {error.message}</p>;
+  if (!entries?.length) return <p className="text-center text-sm text-muted-foreground">{empty}</p>;
+
+  const playerId = getPlayerId();
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-10">#</TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Score</TableHead>
+          <TableHead className="text-right">Distance</TableHead>
+          <TableHead className="text-right">Time</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.id} className={entry.playerId === playerId ? 'bg-primary/10' : undefined}>
+            <TableCell className="font-bold text-primary">{entry.rank}</TableCell>
+            <TableCell className="font-medium">{entry.name}</TableCell>
+            <TableCell className="text-right font-bold">{entry.score}</TableCell>
+            <TableCell className="text-right">{entry.distance}m</TableCell>
+            <TableCell className="text-right">{entry.timeAlive}s</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const OnlineLeaderboard = () => {
+  const [mode, setMode] = useState<GameMode>('endless');
+  const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+  const top = useTopScores({ mode, difficulty, period });
+  const aroundMe = useScoresAroundMe({ mode, difficulty, period });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-4">
+        <div className="flex-1 space-y-1">
+          <Label>Mode</Label>
+          <Select value={mode} onValueChange={value => setMode(value as GameMode)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {MODES.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label>Difficulty</Label>
+          <Select value={difficulty} onValueChange={value => setDifficulty(value as Difficulty)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {DIFFICULTIES.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1 space-y-1">
+          <Label>Period</Label>
+          <Select value={period} onValueChange={value => setPeriod(value as LeaderboardPeriod)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <EntryTable entries={top.data} isLoading={top.isLoading} error={top.error} empty="No scores posted yet." />
+
+      <h2 className="text-lg font-bold text-primary">Around you</h2>
+      <EntryTable entries={aroundMe.data} isLoading={aroundMe.isLoading} error={aroundMe.error} empty="Post a score to see where you stand." />
+    </div>
+  );
+};
+
+export default OnlineLeaderboard;
@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ENGINE_VERSION, interpolate } from "@/game/engine";
+import { TICK_RATE } from "@/game/physics";
+import { createGameLoop } from "@/game/loop";
+import { drawGame } from "@/game/render";
+import { createReplayPlayer } from "@/game/replay";
+import type { StoredReplay } from "@/lib/replays";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  replay: StoredReplay;
+}
+
+const ReplayViewer = ({ replay }: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [player] = useState(() => createReplayPlayer(replay));
+  const playingRef = useRef(true);
+  const speedRef = useRef(1);
+  const tickBudget = useRef(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const [score, setScore] = useState(0);
+
+  const draw = useCallback((alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const state = player.state();
+    drawGame(ctx, interpolate(player.previous(), state, playingRef.current ? alpha : 1));
+    setTick(state.tick);
+    setScore(state.score);
+  }, [player]);
+
+  const togglePlaying = useCallback((value: boolean) => {
+    if (value && player.finished()) player.seek(0);
+    playingRef.current = value;
+    setPlaying(value);
+  }, [player]);
+
+  const changeSpeed = (value: number) => {
+    speedRef.current = value;
+    setSpeed(value);
+  };
+
+  const seek = (value: number[]) => {
+    player.seek(value[0]);
+    draw(1);
+  };
+
+  useEffect(() => {
+    const loop = createGameLoop(() => {
+      if (!playingRef.current) return;
+
+      tickBudget.current += speedRef.current;
+      while (tickBudget.current >= 1) {
+        player.advance();
+        tickBudget.current -= 1;
+      }
+      if (player.finished()) togglePlaying(false);
+    }, draw);
+    loop.start();
+    return () => loop.stop();
+  }, [player, draw, togglePlaying]);
+
+  return (
+    <div className="fixed inset-0 game-bg flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4">
+        <div className="text-center">
+          <h1 className="text-2xl sm:text-4xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-2">
+            Replay
+          </h1>
+          <div className="grid grid-cols-3 gap-2 sm:gap-4 text-xs sm:text-sm">
+            <div className="text-center">
+              <div className="text-primary font-bold text-lg">{score}</div>
+              <div className="text-muted-foreground">Score</div>
+            </div>
+            <div className="text-center">
+              <div className="text-secondary font-bold text-lg">{(tick / TICK_RATE).toFixed(1)}s</div>
+              <div className="text-muted-foreground">Time</div>
+            </div>
+            <div className="text-center">
+              <div className="text-accent font-bold text-lg">{replay.score}</div>
+              <div className="text-muted-foreground">Final</div>
+            </div>
+          </div>
+          {replay.version !== ENGINE_VERSION && (
+            <p className="text-xs text-destructive mt-2">
+              Recorded with an older version of the game, so playback may not match the original run.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Replay Canvas */}
+      <div className="flex-1 flex items-center justify-center p-2 min-h-0">
+        <div className="relative aspect-[9/16] h-full max-w-sm max-h-full">
+          <canvas
+            ref={canvasRef}
+            width={player.state().config.width}
+            height={player.state().config.height}
+            className="w-full h-full border border-border rounded-lg game-glow bg-game-bg object-contain"
+          />
+        </div>
+      </div>
+
+      {/* Playback Controls */}
+      <div className="flex-shrink-0 p-4 space-y-3 w-full max-w-sm mx-auto">
+        <Slider
+          value={[tick]}
+          max={replay.ticks}
+          step={1}
+          onValueChange={seek}
+          aria-label="Replay position"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <Button size="icon" variant="default" className="neon-glow" onClick={() => togglePlaying(!playing)} aria-label={playing ? "Pause" : "Play"}>
+            {playing ? <Pause /> : <Play />}
+          </Button>
+          <Button size="icon" variant="outline" onClick={() => seek([0])} aria-label="Restart">
+            <RotateCcw />
+          </Button>
+          <div className="flex gap-1">
+            {SPEEDS.map(value => (
+              <Button
+                key={value}
+                size="sm"
+                variant={value === speed ? "secondary" : "ghost"}
+                onClick={() => changeSpeed(value)}
+              >
+                {value}x
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="text-center text-xs sm:text-sm text-muted-foreground">
+          <Link to="/replays" className="underline-offset-4 hover:text-primary hover:underline">All replays</Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,118 @@
+import type { ReactNode } from "react";
+import KeyBindingsEditor from "@/components/KeyBindingsEditor";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useSettings } from "@/hooks/use-settings";
+import { resetSettings, updateSettings, type Settings } from "@/lib/settings";
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type VolumeKey = 'masterVolume' | 'musicVolume' | 'sfxVolume';
+
+const VOLUMES: { key: VolumeKey; label: string }[] = [
+  { key: 'masterVolume', label: 'Master volume' },
+  { key: 'musicVolume', label: 'Music' },
+  { key: 'sfxVolume', label: 'Sound effects' }
+];
+
+// Spelled out rather than derived so each select keeps its own wording
+const CHOICES = {
+  effectsQuality: [['low', 'Low'], ['medium', 'Medium'], ['high', 'High']],
+  hudLayout: [['full', 'Full'], ['compact', 'Compact'], ['hidden', 'Hidden']],
+  controlScheme: [['hold', 'Hold to keep flipping'], ['tap', 'One flip per press']],
+  difficulty: [['easy', 'Easy'], ['normal', 'Normal'], ['hard', 'Hard']]
+} satisfies Record<string, [string, string][]>;
+
+const Row = ({ label, htmlFor, children }: { label: string; htmlFor?: string; children: ReactNode }) => (
+  <div className="flex items-center justify-between gap-4">
+    <Label htmlFor={htmlFor} className="shrink-0">{label}</Label>
+    {children}
+  </div>
+);
+
+const SettingsDialog = ({ open, onOpenChange }: SettingsDialogProps) => {
+  const settings = useSettings();
+
+  const choice = <K extends keyof typeof CHOICES>(key: K, label: string) => (
+    <Row label={label}>
+      <Select value={settings[key]} onValueChange={value => updateSettings({ [key]: value } as Partial<Settings>)}>
+        <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {CHOICES[key].map(([value, text]) => <SelectItem key={value} value={value}>{text}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </Row>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Changes apply straight away.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-bold text-primary">Audio</h3>
+          <Row label="Mute" htmlFor="settings-muted">
+            <Switch id="settings-muted" checked={settings.muted} onCheckedChange={muted => updateSettings({ muted })} />
+          </Row>
+          {VOLUMES.map(({ key, label }) => (
+            <Row key={key} label={label}>
+              <Slider
+                className="w-48"
+                min={0}
+                max={100}
+                step={5}
+                disabled={settings.muted}
+                value={[Math.round(settings[key] * 100)]}
+                onValueChange={([value]) => updateSettings({ [key]: value / 100 })}
+                aria-label={label}
+              />
+            </Row>
+          ))}
+
+          <h3 className="text-sm font-bold text-primary">Display</h3>
+          {choice('effectsQuality', 'Effects quality')}
+          {choice('hudLayout', 'HUD')}
+          <Row label="Reduced motion" htmlFor="settings-reduced-motion">
+            <Switch
+              id="settings-reduced-motion"
+              checked={settings.reducedMotion}
+              onCheckedChange={reducedMotion => updateSettings({ reducedMotion })}
+            />
+          </Row>
+          <Row label="Screen shake" htmlFor="settings-screen-shake">
+            <Switch
+              id="settings-screen-shake"
+              checked={settings.screenShake}
+              disabled={settings.reducedMotion}
+              onCheckedChange={screenShake => updateSettings({ screenShake })}
+            />
+          </Row>
+
+          <h3 className="text-sm font-bold text-primary">Gameplay</h3>
+          {choice('controlScheme', 'Controls')}
+          {choice('difficulty', 'Difficulty')}
+          <p className="text-xs text-muted-foreground">Difficulty takes effect from the next run. Daily challenges are always on Normal.</p>
+
+          <h3 className="text-sm font-bold text-primary">Keys</h3>
+          <KeyBindingsEditor />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={resetSettings}>Reset to defaults</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
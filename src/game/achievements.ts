@@ -0,0 +1,89 @@
+import type { GameState } from "./types";
+
+// Achievements are goals over a handful of counters. Totals add up across every run; bests only
+// remember the highest any single run reached.
+
+export type TotalStat = "runs" | "flips" | "nearMisses" | "distance" | "collected" | "powerUps" | "levelsCleared";
+export type BestStat = "runDistance" | "runScore" | "noFlipDistance";
+export type AchievementStat = TotalStat | BestStat;
+
+export type AchievementStats = Record<AchievementStat, number>;
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  stat: AchievementStat;
+  goal: number;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: "first-flip", name: "Which Way Is Up?", description: "Flip gravity for the first time", stat: "flips", goal: 1 },
+  { id: "flipper", name: "Flip Happens", description: "Flip gravity 500 times", stat: "flips", goal: 500 },
+  { id: "flip-master", name: "Gravity Juggler", description: "Flip gravity 5,000 times", stat: "flips", goal: 5000 },
+  { id: "close-call", name: "Close Call", description: "Scrape past an obstacle", stat: "nearMisses", goal: 1 },
+  { id: "daredevil", name: "Daredevil", description: "Scrape past 100 obstacles", stat: "nearMisses", goal: 100 },
+  { id: "going-places", name: "Going Places", description: "Cover 5,000m in a single run", stat: "runDistance", goal: 5000 },
+  { id: "long-haul", name: "Long Haul", description: "Cover 20,000m in a single run", stat: "runDistance", goal: 20000 },
+  { id: "into-the-void", name: "Into the Void", description: "Cover 50,000m in a single run", stat: "runDistance", goal: 50000 },
+  { id: "marathon", name: "Marathon", description: "Cover 500,000m across all runs", stat: "distance", goal: 500000 },
+  { id: "hands-off", name: "Hands Off", description: "Cover 500m before your first flip", stat: "noFlipDistance", goal: 500 },
+  { id: "zen", name: "Zen", description: "Cover 1,500m before your first flip", stat: "noFlipDistance", goal: 1500 },
+  { id: "high-roller", name: "High Roller", description: "Score 500 points in a single run", stat: "runScore", goal: 500 },
+  { id: "collector", name: "Collector", description: "Collect 100 orbs", stat: "collected", goal: 100 },
+  { id: "hoarder", name: "Hoarder", description: "Collect 1,000 orbs", stat: "collected", goal: 1000 },
+  { id: "powered-up", name: "Powered Up", description: "Pick up 25 power-ups", stat: "powerUps", goal: 25 },
+  { id: "finish-line", name: "Finish Line", description: "Clear a campaign level", stat: "levelsCleared", goal: 1 },
+  { id: "persistent", name: "Persistent", description: "Play 50 runs", stat: "runs", goal: 50 }
+];
+
+const BEST_STATS: BestStat[] = ["runDistance", "runScore", "noFlipDistance"];
+
+export const createStats = (): AchievementStats => ({
+  runs: 0,
+  flips: 0,
+  nearMisses: 0,
+  distance: 0,
+  collected: 0,
+  powerUps: 0,
+  levelsCleared: 0,
+  runDistance: 0,
+  runScore: 0,
+  noFlipDistance: 0
+});
+
+// Folds one tick of a run into that run's stats
+export const updateRunStats = (run: AchievementStats, state: GameState): AchievementStats => {
+  const next = { ...run, runs: 1 };
+  state.events.forEach(event => {
+    if (event.type === "flip") next.flips++;
+    if (event.type === "nearMiss") next.nearMisses++;
+    if (event.type === "collect") next.collected++;
+    if (event.type === "powerUp") next.powerUps++;
+    if (event.type === "finish") next.levelsCleared++;
+  });
+  next.distance = Math.floor(state.distance);
+  next.runDistance = next.distance;
+  next.runScore = state.score;
+  if (next.flips === 0) next.noFlipDistance = next.distance;
+  return next;
+};
+
+// Lifetime stats with a run on top of them
+export const combineStats = (lifetime: AchievementStats, run: AchievementStats): AchievementStats => {
+  const combined = { ...lifetime };
+  (Object.keys(run) as AchievementStat[]).forEach(stat => {
+    combined[stat] = (BEST_STATS as AchievementStat[]).includes(stat)
+      ? Math.max(lifetime[stat], run[stat])
+      : lifetime[stat] + run[stat];
+  });
+  return combined;
+};
+
+// 0..1 of the way to unlocking
+export const getProgress = (achievement: Achievement, stats: AchievementStats) =>
+  Math.min(1, stats[achievement.stat] / achievement.goal);
+
+// Achievements `stats` has reached that aren't in `unlocked` yet
+export const getNewlyUnlocked = (stats: AchievementStats, unlocked: string[]) =>
+  ACHIEVEMENTS.filter(achievement => !unlocked.includes(achievement.id) && getProgress(achievement, stats) >= 1);
@@ -0,0 +1,249 @@
+// Procedural sound: every effect and the soundtrack are synthesized with Web Audio, so there are
+// no files to load. Sounds go through music and effects buses into a master bus, each with its
+// own volume. The audio context only exists after `init`, which browsers require to happen
+// during a user gesture; until then everything is silently ignored.
+
+export type SoundEffect = "flip" | "pickup" | "nearMiss" | "levelUp" | "hit" | "shield" | "crash" | "finish";
+
+export interface Volumes {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export interface AudioEngine {
+  init: () => void;
+  setVolumes: (volumes: Volumes) => void;
+  play: (effect: SoundEffect) => void;
+  startMusic: () => void;
+  stopMusic: () => void;
+  // The difficulty level the soundtrack should match, from getDifficultyLevel
+  setIntensity: (level: number) => void;
+}
+
+interface Graph {
+  context: AudioContext;
+  master: GainNode;
+  music: GainNode;
+  sfx: GainNode;
+  // Sits between the soundtrack and the music bus so stopping can fade out without touching the volume
+  song: GainNode;
+  noise: AudioBuffer;
+}
+
+const createGraph = (): Graph => {
+  const context = new AudioContext();
+  const master = context.createGain();
+  const music = context.createGain();
+  const sfx = context.createGain();
+  const song = context.createGain();
+  master.connect(context.destination);
+  music.connect(master);
+  sfx.connect(master);
+  song.connect(music);
+  song.gain.value = 0;
+
+  // A second of white noise, shared by every percussive sound
+  const noise = context.createBuffer(1, context.sampleRate, context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+  return { context, master, music, sfx, song, noise };
+};
+
+// Fast attack then an exponential decay to silence over `duration` seconds
+const envelope = (context: AudioContext, start: number, duration: number, peak: number) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(peak, start + 0.005);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  return gain;
+};
+
+interface Tone {
+  type: OscillatorType;
+  from: number;
+  // Glides from `from` to `to` over the note when given
+  to?: number;
+  start: number;
+  duration: number;
+  gain: number;
+}
+
+const tone = ({ context }: Graph, output: AudioNode, { type, from, to, start, duration, gain }: Tone) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(from, start);
+  if (to) oscillator.frequency.exponentialRampToValueAtTime(to, start + duration);
+  oscillator.connect(envelope(context, start, duration, gain)).connect(output);
+  oscillator.start(start);
+  oscillator.stop(start + duration + 0.02);
+};
+
+interface Noise {
+  filter: BiquadFilterType;
+  from: number;
+  to?: number;
+  start: number;
+  duration: number;
+  gain: number;
+}
+
+const noise = ({ context, noise: buffer }: Graph, output: AudioNode, { filter, from, to, start, duration, gain }: Noise) => {
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  const shaped = context.createBiquadFilter();
+  shaped.type = filter;
+  shaped.frequency.setValueAtTime(from, start);
+  if (to) shaped.frequency.exponentialRampToValueAtTime(to, start + duration);
+  source.connect(shaped).connect(envelope(context, start, duration, gain)).connect(output);
+  source.start(start);
+  source.stop(start + duration + 0.02);
+};
+
+const EFFECTS: Record<SoundEffect, (graph: Graph, now: number) => void> = {
+  flip: (graph, now) => tone(graph, graph.sfx, { type: "triangle", from: 320, to: 640, start: now, duration: 0.09, gain: 0.25 }),
+  pickup: (graph, now) => {
+    tone(graph, graph.sfx, { type: "square", from: 880, start: now, duration: 0.08, gain: 0.12 });
+    tone(graph, graph.sfx, { type: "square", from: 1320, start: now + 0.06, duration: 0.1, gain: 0.12 });
+  },
+  nearMiss: (graph, now) => noise(graph, graph.sfx, { filter: "bandpass", from: 800, to: 3200, start: now, duration: 0.18, gain: 0.35 }),
+  levelUp: (graph, now) => {
+    // C major arpeggio up to the octave
+    [523.25, 659.25, 783.99, 1046.5].forEach((frequency, i) => {
+      tone(graph, graph.sfx, { type: "triangle", from: frequency, start: now + i * 0.08, duration: 0.16, gain: 0.2 });
+    });
+  },
+  // A lighter crash, for a hit the run survives
+  hit: (graph, now) => {
+    noise(graph, graph.sfx, { filter: "lowpass", from: 1500, to: 300, start: now, duration: 0.25, gain: 0.45 });
+    tone(graph, graph.sfx, { type: "square", from: 220, to: 110, start: now, duration: 0.2, gain: 0.15 });
+  },
+  // A glassy ping as the shield shatters the obstacle
+  shield: (graph, now) => {
+    tone(graph, graph.sfx, { type: "sine", from: 1760, to: 880, start: now, duration: 0.3, gain: 0.25 });
+    noise(graph, graph.sfx, { filter: "highpass", from: 5000, start: now, duration: 0.2, gain: 0.2 });
+  },
+  crash: (graph, now) => {
+    noise(graph, graph.sfx, { filter: "lowpass", from: 2000, to: 200, start: now, duration: 0.6, gain: 0.6 });
+    tone(graph, graph.sfx, { type: "sine", from: 160, to: 40, start: now, duration: 0.5, gain: 0.5 });
+  },
+  finish: (graph, now) => {
+    // G, C, E, then a held high C
+    [392, 523.25, 659.25].forEach((frequency, i) => {
+      tone(graph, graph.sfx, { type: "square", from: frequency, start: now + i * 0.1, duration: 0.12, gain: 0.12 });
+    });
+    tone(graph, graph.sfx, { type: "triangle", from: 1046.5, start: now + 0.3, duration: 0.8, gain: 0.25 });
+  }
+};
+
+// The soundtrack is a 16-step loop in A minor. Each difficulty level adds a layer, then the tempo
+// keeps creeping up.
+const STEPS = 16;
+// Semitones above A2, null for a rest
+const BASS = [0, null, 12, 0, null, 0, 10, null, 0, null, 12, 0, 7, null, 10, null];
+const ARPEGGIO = [0, 3, 7, 10, 12, 10, 7, 3];
+const BASS_ROOT = 110;
+const LEAD_ROOT = 440;
+const BASE_TEMPO = 110;
+const TEMPO_PER_LEVEL = 5;
+const MAX_TEMPO_LEVEL = 8;
+
+const pitch = (root: number, semitones: number) => root * 2 ** (semitones / 12);
+
+const playStep = (graph: Graph, step: number, level: number, time: number, length: number) => {
+  const out = graph.song;
+  const bass = BASS[step];
+  if (bass !== null) tone(graph, out, { type: "sawtooth", from: pitch(BASS_ROOT, bass), start: time, duration: length * 0.9, gain: 0.08 });
+  if (step % 4 === 0) tone(graph, out, { type: "sine", from: 150, to: 45, start: time, duration: 0.15, gain: 0.6 });
+  if (level >= 1 && (level >= 5 || step % 4 === 2)) {
+    noise(graph, out, { filter: "highpass", from: 7000, start: time, duration: 0.04, gain: 0.12 });
+  }
+  if (level >= 2 && step % 8 === 4) {
+    noise(graph, out, { filter: "bandpass", from: 1800, start: time, duration: 0.12, gain: 0.25 });
+  }
+  if (level >= 3) {
+    const note = ARPEGGIO[step % ARPEGGIO.length];
+    tone(graph, out, { type: "square", from: pitch(LEAD_ROOT, note), start: time, duration: length * 0.8, gain: 0.04 });
+  }
+};
+
+// How often the scheduler wakes up, and how far ahead of the audio clock it queues notes.
+// Timers are too jittery to play notes on directly.
+const SCHEDULE_INTERVAL = 25;
+const SCHEDULE_AHEAD = 0.1;
+const FADE_TIME = 0.3;
+
+export const createAudioEngine = (): AudioEngine => {
+  let graph: Graph | null = null;
+  let volumes: Volumes = { master: 1, music: 1, sfx: 1, muted: false };
+  let intensity = 0;
+  let scheduler: ReturnType<typeof setInterval> | undefined;
+  let nextStep = 0;
+  let nextStepTime = 0;
+
+  const applyVolumes = () => {
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    graph.master.gain.setTargetAtTime(volumes.muted ? 0 : volumes.master, now, 0.02);
+    graph.music.gain.setTargetAtTime(volumes.music, now, 0.02);
+    graph.sfx.gain.setTargetAtTime(volumes.sfx, now, 0.02);
+  };
+
+  const schedule = () => {
+    if (!graph) return;
+    const tempo = BASE_TEMPO + Math.min(intensity, MAX_TEMPO_LEVEL) * TEMPO_PER_LEVEL;
+    // Sixteenth notes
+    const length = 60 / tempo / 4;
+    while (nextStepTime < graph.context.currentTime + SCHEDULE_AHEAD) {
+      playStep(graph, nextStep, intensity, nextStepTime, length);
+      nextStep = (nextStep + 1) % STEPS;
+      nextStepTime += length;
+    }
+  };
+
+  const init = () => {
+    if (typeof AudioContext === "undefined") return;
+    graph ??= createGraph();
+    applyVolumes();
+    if (graph.context.state === "suspended") void graph.context.resume();
+  };
+
+  const play = (effect: SoundEffect) => {
+    if (graph) EFFECTS[effect](graph, graph.context.currentTime);
+  };
+
+  const startMusic = () => {
+    if (!graph || scheduler !== undefined) return;
+    const now = graph.context.currentTime;
+    graph.song.gain.cancelScheduledValues(now);
+    graph.song.gain.setValueAtTime(1, now);
+    nextStep = 0;
+    nextStepTime = now + 0.05;
+    schedule();
+    scheduler = setInterval(schedule, SCHEDULE_INTERVAL);
+  };
+
+  const stopMusic = () => {
+    if (scheduler === undefined) return;
+    clearInterval(scheduler);
+    scheduler = undefined;
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    graph.song.gain.cancelScheduledValues(now);
+    graph.song.gain.setValueAtTime(graph.song.gain.value, now);
+    graph.song.gain.linearRampToValueAtTime(0, now + FADE_TIME);
+  };
+
+  const setVolumes = (next: Volumes) => {
+    volumes = next;
+    applyVolumes();
+  };
+
+  const setIntensity = (level: number) => {
+    intensity = Math.max(0, level);
+  };
+
+  return { init, setVolumes, play, startMusic, stopMusic, setIntensity };
+};
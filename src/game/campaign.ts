@@ -0,0 +1,41 @@
+import { parseLevel, type Level } from "./level";
+import firstSteps from "./campaign/01-first-steps.json";
+import spikeAlley from "./campaign/02-spike-alley.json";
+import lowGravity from "./campaign/03-low-gravity.json";
+import rush from "./campaign/04-rush.json";
+
+// The authored levels in the order they unlock. Each file is a level as exported by the editor.
+export interface CampaignLevel {
+  id: string;
+  level: Level;
+}
+
+export const CAMPAIGN: CampaignLevel[] = [
+  { id: "first-steps", level: parseLevel(firstSteps) },
+  { id: "spike-alley", level: parseLevel(spikeAlley) },
+  { id: "low-gravity", level: parseLevel(lowGravity) },
+  { id: "rush", level: parseLevel(rush) }
+];
+
+export const getCampaignLevel = (id: string) => CAMPAIGN.find(entry => entry.id === id);
+
+export interface LevelStars {
+  completed: boolean;
+  noHit: boolean;
+  allCollected: boolean;
+}
+
+export interface LevelRun {
+  completed: boolean;
+  hits: number;
+  collected: number;
+}
+
+// Every star needs the level cleared; the other two are for clearing it cleanly and fully
+export const getStars = (run: LevelRun, level: Level): LevelStars => ({
+  completed: run.completed,
+  noHit: run.completed && run.hits === 0,
+  allCollected: run.completed && run.collected >= level.collectibles.length
+});
+
+export const countStars = (stars: LevelStars) => [stars.completed, stars.noHit, stars.allCollected].filter(Boolean).length;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { intersect, shrinkRect, type Shape } from "./collision";
+
+const rect = (x: number, y: number, width: number, height: number): Shape => ({ kind: "rect", x, y, width, height });
+const circle = (x: number, y: number, radius: number): Shape => ({ kind: "circle", x, y, radius });
+// A spike standing on y = 100, 40 wide and 40 tall, with its tip at (x + 20, 60)
+const spike = (x: number): Shape => ({ kind: "triangle", points: [{ x, y: 100 }, { x: x + 40, y: 100 }, { x: x + 20, y: 60 }] });
+
+describe("intersect", () => {
+  describe("rect and rect", () => {
+    it("hits where they overlap, at the middle of the overlap", () => {
+      expect(intersect(rect(0, 0, 10, 10), rect(5, 5, 10, 10))).toEqual({ x: 7.5, y: 7.5 });
+    });
+
+    it("hits when one is inside the other", () => {
+      expect(intersect(rect(0, 0, 100, 100), rect(40, 40, 10, 10))).toEqual({ x: 45, y: 45 });
+    });
+
+    it("misses when the edges only touch", () => {
+      expect(intersect(rect(0, 0, 10, 10), rect(10, 0, 10, 10))).toBeNull();
+      expect(intersect(rect(0, 0, 10, 10), rect(0, 10, 10, 10))).toBeNull();
+    });
+
+    it("misses when just apart", () => {
+      expect(intersect(rect(0, 0, 10, 10), rect(10.01, 0, 10, 10))).toBeNull();
+    });
+  });
+
+  describe("rect and triangle", () => {
+    it("hits the tip of a spike", () => {
+      expect(intersect(rect(15, 50, 10, 15), spike(0))).not.toBeNull();
+    });
+
+    it("misses beside the slope even though the bounding boxes overlap", () => {
+      // The box's corner sits inside the spike's bounding box but above its sloping side
+      expect(intersect(rect(0, 50, 8, 30), spike(0))).toBeNull();
+    });
+
+    it("misses when resting on the tip or beside the base", () => {
+      expect(intersect(rect(10, 40, 20, 20), spike(0))).toBeNull();
+      expect(intersect(rect(40, 80, 10, 20), spike(0))).toBeNull();
+    });
+
+    it("hits however the triangle is wound", () => {
+      const reversed: Shape = { kind: "triangle", points: [{ x: 20, y: 60 }, { x: 40, y: 100 }, { x: 0, y: 100 }] };
+      expect(intersect(rect(15, 50, 10, 15), reversed)).not.toBeNull();
+      expect(intersect(spike(0), rect(15, 50, 10, 15))).not.toBeNull();
+    });
+  });
+
+  describe("triangle and triangle", () => {
+    it("hits when the spikes overlap", () => {
+      expect(intersect(spike(0), spike(30))).not.toBeNull();
+    });
+
+    it("misses when the bases only touch, or just apart", () => {
+      expect(intersect(spike(0), spike(40))).toBeNull();
+      expect(intersect(spike(0), spike(40.01))).toBeNull();
+    });
+  });
+
+  describe("circle", () => {
+    it("hits a rect it overlaps, at the nearest point of the rect", () => {
+      expect(intersect(circle(15, 5, 6), rect(0, 0, 10, 10))).toEqual({ x: 10, y: 5 });
+    });
+
+    it("hits a rect it is inside, at its own centre", () => {
+      expect(intersect(circle(5, 5, 2), rect(0, 0, 10, 10))).toEqual({ x: 5, y: 5 });
+    });
+
+    it("misses a rect it touches or just clears", () => {
+      expect(intersect(circle(15, 5, 5), rect(0, 0, 10, 10))).toBeNull();
+      expect(intersect(rect(0, 0, 10, 10), circle(15.01, 5, 5))).toBeNull();
+      // Off the corner: within reach of both edges' lines but not of the corner itself
+      expect(intersect(circle(14, 14, 5), rect(0, 0, 10, 10))).toBeNull();
+    });
+
+    it("hits and misses a spike's slope", () => {
+      expect(intersect(circle(20, 55, 6), spike(0))).not.toBeNull();
+      expect(intersect(circle(20, 55, 5), spike(0))).toBeNull();
+    });
+
+    it("hits another circle it overlaps, and misses one it touches", () => {
+      expect(intersect(circle(0, 0, 5), circle(8, 0, 5))).toEqual({ x: 5, y: 0 });
+      expect(intersect(circle(0, 0, 5), circle(10, 0, 5))).toBeNull();
+    });
+  });
+});
+
+describe("shrinkRect", () => {
+  it("shrinks about the centre by the given share of each side", () => {
+    expect(shrinkRect({ kind: "rect", x: 0, y: 0, width: 100, height: 50 }, 0.2)).toEqual({ kind: "rect", x: 10, y: 5, width: 80, height: 40 });
+  });
+
+  it("leaves the rect alone with no shrink", () => {
+    const original = { kind: "rect", x: 3, y: 4, width: 25, height: 25 } as const;
+    expect(shrinkRect(original, 0)).toEqual(original);
+  });
+
+  it("turns a near miss into a clear one", () => {
+    const player = { kind: "rect", x: 0, y: 0, width: 20, height: 20 } as const;
+    const obstacle = rect(19, 0, 20, 20);
+    expect(intersect(player, obstacle)).not.toBeNull();
+    expect(intersect(shrinkRect(player, 0.15), obstacle)).toBeNull();
+  });
+});
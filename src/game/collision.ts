@@ -0,0 +1,123 @@
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export type Shape =
+  | { kind: "rect"; x: number; y: number; width: number; height: number }
+  | { kind: "triangle"; points: [Vec, Vec, Vec] }
+  | { kind: "circle"; x: number; y: number; radius: number };
+
+type Polygon = Vec[];
+
+const toPolygon = (shape: Exclude<Shape, { kind: "circle" }>): Polygon => {
+  if (shape.kind === "triangle") return shape.points;
+  const { x, y, width, height } = shape;
+  return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }];
+};
+
+const cross = (o: Vec, a: Vec, b: Vec) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Sutherland–Hodgman: the part of `subject` inside the convex polygon `clip`
+const clipPolygon = (subject: Polygon, clip: Polygon): Polygon => {
+  // Normalise the winding so "inside" is always the same side of each edge
+  const area = clip.reduce((sum, point, i) => sum + cross(clip[0], point, clip[(i + 1) % clip.length]), 0);
+  const sign = area < 0 ? -1 : 1;
+  let output = subject;
+
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    const inside = (p: Vec) => cross(a, b, p) * sign > 0;
+    const input = output;
+    output = [];
+
+    input.forEach((current, j) => {
+      const previous = input[(j + input.length - 1) % input.length];
+      const intersection = () => {
+        const d1 = cross(a, b, previous);
+        const d2 = cross(a, b, current);
+        const t = d1 / (d1 - d2);
+        return { x: previous.x + (current.x - previous.x) * t, y: previous.y + (current.y - previous.y) * t };
+      };
+
+      if (inside(current)) {
+        if (!inside(previous)) output.push(intersection());
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersection());
+      }
+    });
+  }
+  return output;
+};
+
+const centroid = (points: Polygon): Vec => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+const closestPointOnSegment = (p: Vec, a: Vec, b: Vec): Vec => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / (dx * dx + dy * dy || 1)));
+  return { x: a.x + dx * t, y: a.y + dy * t };
+};
+
+const containsPoint = (polygon: Polygon, p: Vec) => {
+  const signs = polygon.map((a, i) => Math.sign(cross(a, polygon[(i + 1) % polygon.length], p)));
+  return signs.every(s => s >= 0) || signs.every(s => s <= 0);
+};
+
+const circleContact = (circle: Extract<Shape, { kind: "circle" }>, other: Shape): Vec | null => {
+  const center = { x: circle.x, y: circle.y };
+
+  if (other.kind === "circle") {
+    const dx = other.x - circle.x;
+    const dy = other.y - circle.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance >= circle.radius + other.radius) return null;
+    const t = distance === 0 ? 0 : circle.radius / distance;
+    return { x: circle.x + dx * t, y: circle.y + dy * t };
+  }
+
+  const polygon = toPolygon(other);
+  if (containsPoint(polygon, center)) return center;
+
+  let closest: Vec | null = null;
+  let closestDistance = Infinity;
+  polygon.forEach((a, i) => {
+    const point = closestPointOnSegment(center, a, polygon[(i + 1) % polygon.length]);
+    const distance = Math.hypot(point.x - center.x, point.y - center.y);
+    if (distance < closestDistance) {
+      closest = point;
+      closestDistance = distance;
+    }
+  });
+  return closestDistance < circle.radius ? closest : null;
+};
+
+// Returns a representative point of contact when the shapes overlap, or null when they don't.
+// Touching edges do not count as a hit.
+export const intersect = (a: Shape, b: Shape): Vec | null => {
+  if (a.kind === "circle") return circleContact(a, b);
+  if (b.kind === "circle") return circleContact(b, a);
+
+  const overlap = clipPolygon(toPolygon(a), toPolygon(b));
+  if (overlap.length < 3) return null;
+  const area = Math.abs(overlap.reduce((sum, point, i) => sum + cross(overlap[0], point, overlap[(i + 1) % overlap.length]), 0));
+  return area > 1e-6 ? centroid(overlap) : null;
+};
+
+// Shrinks a rectangle about its centre by `factor` of its size
+export const shrinkRect = (rect: Extract<Shape, { kind: "rect" }>, factor: number): Extract<Shape, { kind: "rect" }> => {
+  const insetX = rect.width * factor / 2;
+  const insetY = rect.height * factor / 2;
+  return {
+    kind: "rect",
+    x: rect.x + insetX,
+    y: rect.y + insetY,
+    width: rect.width - insetX * 2,
+    height: rect.height - insetY * 2
+  };
+};
@@ -0,0 +1,112 @@
+import type { Rng } from "./rng";
+import type { Particle } from "./types";
+
+// Purely visual unlocks. Trails draw from the effects random stream, so swapping them can never
+// change how a run plays out.
+
+export type SkinShape = "square" | "circle" | "diamond" | "triangle";
+
+export interface Skin {
+  id: string;
+  name: string;
+  price: number;
+  shape: SkinShape;
+  color: string;
+  // Shadow blur around the player; pulsing skins breathe between none and twice this
+  glow: number;
+  pulse?: boolean;
+}
+
+export interface Trail {
+  id: string;
+  name: string;
+  price: number;
+  // Particles released at the point of a flip
+  create: (rng: Rng, x: number, y: number, firstId: number) => Particle[];
+}
+
+export const SKINS: Skin[] = [
+  { id: "classic", name: "Classic", price: 0, shape: "square", color: "hsl(280, 100%, 70%)", glow: 15 },
+  { id: "orb", name: "Cyan Orb", price: 50, shape: "circle", color: "hsl(180, 100%, 60%)", glow: 15 },
+  { id: "ember", name: "Ember", price: 120, shape: "diamond", color: "hsl(20, 100%, 60%)", glow: 25 },
+  { id: "arrow", name: "Lime Arrow", price: 200, shape: "triangle", color: "hsl(100, 100%, 55%)", glow: 15 },
+  { id: "pulse", name: "Heartbeat", price: 350, shape: "square", color: "hsl(340, 100%, 65%)", glow: 20, pulse: true },
+  { id: "phantom", name: "Phantom", price: 500, shape: "circle", color: "hsl(0, 0%, 95%)", glow: 30, pulse: true }
+];
+
+const particle = (id: number, x: number, y: number, vx: number, vy: number, color?: string): Particle => ({
+  id, x, y, vx, vy, life: 1, color
+});
+
+export const TRAILS: Trail[] = [
+  {
+    id: "burst",
+    name: "Burst",
+    price: 0,
+    create: (rng, x, y, firstId) => Array.from({ length: 8 }, (_, i) => particle(
+      firstId + i,
+      x + rng.range(-10, 10),
+      y + rng.range(-10, 10),
+      rng.range(-240, 240),
+      rng.range(-240, 240)
+    ))
+  },
+  {
+    id: "ring",
+    name: "Shockwave",
+    price: 80,
+    create: (rng, x, y, firstId) => {
+      const turn = rng.next() * Math.PI * 2;
+      return Array.from({ length: 12 }, (_, i) => {
+        const angle = turn + i / 12 * Math.PI * 2;
+        return particle(firstId + i, x, y, Math.cos(angle) * 300, Math.sin(angle) * 300, "hsl(300, 100%, 70%)");
+      });
+    }
+  },
+  {
+    id: "sparks",
+    name: "Sparks",
+    price: 150,
+    create: (rng, x, y, firstId) => Array.from({ length: 16 }, (_, i) => particle(
+      firstId + i,
+      x,
+      y,
+      rng.range(-600, 600),
+      rng.range(-600, 600),
+      "hsl(45, 100%, 65%)"
+    ))
+  },
+  {
+    id: "comet",
+    name: "Comet Tail",
+    price: 250,
+    // Streams back along the course, as if left behind by the flip
+    create: (rng, x, y, firstId) => Array.from({ length: 10 }, (_, i) => particle(
+      firstId + i,
+      x - i * 4,
+      y + rng.range(-4, 4),
+      -rng.range(150, 450),
+      rng.range(-30, 30),
+      "hsl(200, 100%, 70%)"
+    ))
+  },
+  {
+    id: "rainbow",
+    name: "Rainbow",
+    price: 400,
+    create: (rng, x, y, firstId) => Array.from({ length: 12 }, (_, i) => particle(
+      firstId + i,
+      x + rng.range(-10, 10),
+      y + rng.range(-10, 10),
+      rng.range(-300, 300),
+      rng.range(-300, 300),
+      `hsl(${i * 30}, 100%, 65%)`
+    ))
+  }
+];
+
+export const DEFAULT_SKIN = SKINS[0];
+export const DEFAULT_TRAIL = TRAILS[0];
+
+export const getSkin = (id: string) => SKINS.find(skin => skin.id === id) ?? DEFAULT_SKIN;
+export const getTrail = (id: string) => TRAILS.find(trail => trail.id === id) ?? DEFAULT_TRAIL;
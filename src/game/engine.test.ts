@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "./engine";
+import { createRng } from "./rng";
+import type { GameState } from "./types";
+
+type Policy = "idle" | "mashing" | "slowmo";
+
+// Every obstacle the course spawns, by where it sits on the course and its size. The shield is
+// kept topped up so runs last, which also puts shattered obstacles through their paces.
+const layCourse = (seed: number, policy: Policy, ticks: number) => {
+  let state: GameState = createGame({}, seed);
+  const presses = createRng(seed + 1);
+  const seen = new Set<number>();
+  const course: string[] = [];
+  let held = false;
+
+  for (let i = 0; i < ticks && !state.over; i++) {
+    if (presses.chance(0.03)) held = !held;
+    const effects = { ...state.effects, shield: 99, slowmo: policy === "slowmo" ? 99 : state.effects.slowmo };
+    state = step({ ...state, effects }, { flip: policy !== "idle" && held });
+    state.obstacles.filter(obstacle => !seen.has(obstacle.id)).forEach(obstacle => {
+      seen.add(obstacle.id);
+      course.push(`${(obstacle.x + state.distance).toFixed(3)} ${obstacle.shape} ${obstacle.width.toFixed(3)}x${obstacle.height.toFixed(3)}`);
+    });
+  }
+  return course;
+};
+
+describe("step", () => {
+  it.each([11, 2024, 987654321])("lays out the same course for seed %i whatever the player does", seed => {
+    const idle = layCourse(seed, "idle", 6000);
+    const mashing = layCourse(seed, "mashing", 6000);
+    const slowed = layCourse(seed, "slowmo", 12000);
+    const compared = Math.min(idle.length, mashing.length, slowed.length);
+
+    expect(compared).toBeGreaterThan(20);
+    expect(mashing.slice(0, compared)).toEqual(idle.slice(0, compared));
+    expect(slowed.slice(0, compared)).toEqual(idle.slice(0, compared));
+  });
+
+  it("flips gravity when asked", () => {
+    const state = step(createGame(), { flip: true });
+    expect(state.player.gravityFlipped).toBe(true);
+    expect(state.events).toContainEqual({ type: "flip", gravityFlipped: true });
+  });
+
+  it("doesn't change the state it is given", () => {
+    const state = createGame({}, 5);
+    const before = JSON.stringify(state);
+    step(state, { flip: true });
+    expect(JSON.stringify(state)).toBe(before);
+  });
+});
@@ -0,0 +1,457 @@
+import { intersect } from "./collision";
+import { DEFAULT_TRAIL, getTrail } from "./cosmetics";
+import { getSection, toCollectible, toObstacle, type Level } from "./level";
+import { getObstacleShape } from "./obstacles";
+import { buildPattern, pickPattern, type BuiltPattern } from "./patterns";
+import { FLIP_DURATION, getDifficultyLevel, getGameSpeed, getPlayerHitbox, getPlayerX, TICK_DURATION, updatePlayer } from "./physics";
+import {
+  createEffects,
+  createPowerUp,
+  getScrollSpeed,
+  MAGNET_RADIUS,
+  MAGNET_SPEED,
+  POWER_UP_CHANCE,
+  POWER_UPS
+} from "./powerups";
+import { createRng, randomSeed, type Rng } from "./rng";
+import { findSurvivors, getEntryStates, isPassable } from "./solver";
+import type {
+  Collectible,
+  Death,
+  Difficulty,
+  GameConfig,
+  GameEvent,
+  GameInput,
+  GameState,
+  Obstacle,
+  Particle,
+  PowerUp,
+  PowerUpKind
+} from "./types";
+
+export const DEFAULT_CONFIG: GameConfig = {
+  width: 360,
+  height: 640,
+  boundary: 50,
+  playerSize: 25,
+  gravity: 2880,
+  jumpForce: -900,
+  baseSpeed: 240,
+  maxSpeed: 720,
+  hitboxShrink: 0.15
+};
+
+export const DIFFICULTY_SETTINGS: Record<Difficulty, Partial<GameConfig>> = {
+  easy: { hitboxShrink: 0.3 },
+  normal: { hitboxShrink: 0.15 },
+  hard: { hitboxShrink: 0 }
+};
+
+// Bump whenever a change to the simulation would make old replays play out differently
+export const ENGINE_VERSION = 8;
+
+const PARTICLE_SPEED = 480;
+const PARTICLE_DRAG = 0.3; // Fraction of velocity kept after one second
+const PARTICLE_FADE = 1.2; // Life lost per second
+const CRASH_PARTICLES = 24;
+// Gap between the end of a pattern and a power-up following it
+const POWER_UP_OFFSET = 80;
+// Layouts tried per spawn before giving up and leaving a breather instead
+const SPAWN_ATTEMPTS = 4;
+// Seconds' worth of course to leave before trying again
+const SPAWN_RETRY_DELAY = 0.25;
+// Coming within this many pixels of an obstacle's hitbox counts as a near miss
+const NEAR_MISS_MARGIN = 12;
+
+// Progressive difficulty system
+export const getObstacleSpacing = (level: number) => Math.max(0.8, 1.5 - (level * 0.1));
+
+export const createGame = (overrides: Partial<GameConfig> = {}, seed = randomSeed()): GameState => {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+  // Decorrelate the effects stream from the gameplay stream
+  const effectsSeed = createRng(seed ^ 0x9e3779b9).next() * 4294967296;
+
+  return {
+    config,
+    player: {
+      x: getPlayerX(config),
+      y: config.height / 2,
+      width: config.playerSize,
+      height: config.playerSize,
+      velocityY: 0,
+      onGround: true,
+      gravityFlipped: false,
+      isFlipping: false,
+      flipStartTime: 0
+    },
+    obstacles: [],
+    collectibles: [],
+    powerUps: [],
+    effects: createEffects(),
+    particles: [],
+    gameSpeed: config.baseSpeed,
+    nextSpawnDistance: 0,
+    score: 0,
+    baseScore: 0,
+    distance: 0,
+    seed,
+    rngState: seed >>> 0,
+    effectsRngState: effectsSeed >>> 0,
+    trail: DEFAULT_TRAIL.id,
+    tick: 0,
+    time: 0,
+    timeAlive: 0,
+    nextId: 0,
+    collected: 0,
+    hits: 0,
+    over: false,
+    death: null,
+    level: null,
+    levelCursor: 0,
+    collectibleCursor: 0,
+    events: []
+  };
+};
+
+// Starts a run on an authored level, optionally from `startAt` pixels into the course
+export const createLevelGame = (level: Level, overrides: Partial<GameConfig> = {}, startAt = 0, seed = randomSeed()): GameState => {
+  const game = createGame(overrides, seed);
+  const { config, player } = game;
+  const sorted = {
+    ...level,
+    obstacles: [...level.obstacles].sort((a, b) => a.x - b.x),
+    collectibles: [...level.collectibles].sort((a, b) => a.x - b.x)
+  };
+  const distance = Math.max(0, startAt - player.x);
+  const section = getSection(level, distance + player.x);
+  let nextId = 0;
+
+  // Whatever is already on screen at the starting point
+  let levelCursor = 0;
+  const obstacles: Obstacle[] = [];
+  while (levelCursor < sorted.obstacles.length && sorted.obstacles[levelCursor].x - distance <= config.width) {
+    const piece = sorted.obstacles[levelCursor++];
+    if (piece.x + piece.width > distance) obstacles.push(toObstacle(piece, config, nextId++, distance));
+  }
+
+  let collectibleCursor = 0;
+  const collectibles: Collectible[] = [];
+  while (collectibleCursor < sorted.collectibles.length && sorted.collectibles[collectibleCursor].x - distance <= config.width) {
+    const piece = sorted.collectibles[collectibleCursor++];
+    if (piece.x > distance) collectibles.push(toCollectible(piece, nextId++, distance));
+  }
+
+  return {
+    ...game,
+    obstacles,
+    collectibles,
+    gameSpeed: section.speed,
+    distance,
+    nextId,
+    level: sorted,
+    levelCursor,
+    collectibleCursor
+  };
+};
+
+const createParticles = (rng: Rng, x: number, y: number, firstId: number, count = 8): Particle[] => {
+  const particles: Particle[] = [];
+  for (let i = 0; i < count; i++) {
+    particles.push({
+      id: firstId + i,
+      x: x + rng.range(-10, 10),
+      y: y + rng.range(-10, 10),
+      vx: rng.range(-0.5, 0.5) * PARTICLE_SPEED,
+      vy: rng.range(-0.5, 0.5) * PARTICLE_SPEED,
+      life: 1
+    });
+  }
+  return particles;
+};
+
+
+// Blends positions from `prev` towards `next` for drawing between two ticks
+export const interpolate = (prev: GameState, next: GameState, alpha: number): GameState => {
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+  const prevObstacles = new Map(prev.obstacles.map(obstacle => [obstacle.id, obstacle]));
+  const prevCollectibles = new Map(prev.collectibles.map(collectible => [collectible.id, collectible]));
+  const prevPowerUps = new Map(prev.powerUps.map(powerUp => [powerUp.id, powerUp]));
+  const prevParticles = new Map(prev.particles.map(particle => [particle.id, particle]));
+
+  return {
+    ...next,
+    player: { ...next.player, y: lerp(prev.player.y, next.player.y) },
+    obstacles: next.obstacles.map(obstacle => {
+      const before = prevObstacles.get(obstacle.id);
+      return before ? { ...obstacle, x: lerp(before.x, obstacle.x) } : obstacle;
+    }),
+    collectibles: next.collectibles.map(collectible => {
+      const before = prevCollectibles.get(collectible.id);
+      return before ? { ...collectible, x: lerp(before.x, collectible.x), y: lerp(before.y, collectible.y) } : collectible;
+    }),
+    powerUps: next.powerUps.map(powerUp => {
+      const before = prevPowerUps.get(powerUp.id);
+      return before ? { ...powerUp, x: lerp(before.x, powerUp.x) } : powerUp;
+    }),
+    particles: next.particles.map(particle => {
+      const before = prevParticles.get(particle.id);
+      return before ? { ...particle, x: lerp(before.x, particle.x), y: lerp(before.y, particle.y) } : particle;
+    }),
+    time: lerp(prev.time, next.time)
+  };
+};
+
+export const updateParticles = (particles: Particle[], dt: number) => {
+  const drag = Math.pow(PARTICLE_DRAG, dt);
+  return particles
+    .map(particle => ({
+      ...particle,
+      x: particle.x + particle.vx * dt,
+      y: particle.y + particle.vy * dt,
+      vx: particle.vx * drag,
+      vy: particle.vy * drag,
+      life: particle.life - PARTICLE_FADE * dt
+    }))
+    .filter(particle => particle.life > 0);
+};
+
+// Advances the simulation by one tick without touching `state`. Once the run is over only
+// particles keep moving, so the crash debris can play out.
+export const step = (state: GameState, input: GameInput): GameState => {
+  if (state.over) {
+    return { ...state, particles: updateParticles(state.particles, TICK_DURATION), events: [] };
+  }
+
+  const { config } = state;
+  const dt = TICK_DURATION;
+  const events: GameEvent[] = [];
+  const tick = state.tick + 1;
+  const now = tick * dt;
+  const rng = createRng(state.rngState);
+  const effectsRng = createRng(state.effectsRngState);
+  const { level } = state;
+  let { nextId, score, baseScore, nextSpawnDistance, levelCursor, collectibleCursor, collected, hits } = state;
+  const effects = { ...state.effects };
+  (Object.keys(effects) as PowerUpKind[]).forEach(kind => {
+    effects[kind] = Math.max(0, effects[kind] - dt);
+  });
+  let particles = state.particles;
+  let over = false;
+  let death: Death | null = null;
+
+  // Update distance and time tracking
+  const scroll = getScrollSpeed(state) * dt;
+  const distance = state.distance + scroll;
+  const timeAlive = Math.floor(now);
+
+  // Authored levels set gravity per section
+  const gravity = level ? getSection(level, state.distance + state.player.x).gravity : config.gravity;
+
+  // Handle gravity flip
+  const player = updatePlayer(state.player, input.flip, { ...config, gravity }, now);
+  if (player.gravityFlipped !== state.player.gravityFlipped) {
+    const { x, y, width, height } = state.player;
+    particles = particles.concat(getTrail(state.trail).create(effectsRng, x + width / 2, y + height / 2, nextId));
+    nextId += particles.length - state.particles.length;
+    events.push({ type: "flip", gravityFlipped: player.gravityFlipped });
+  }
+
+  // Create obstacles, rerolling layouts that no flip timing could get through
+  let obstacles = state.obstacles;
+  let collectibles = state.collectibles;
+  let powerUps = state.powerUps;
+  const difficultyLevel = getDifficultyLevel(baseScore);
+  if (level) {
+    // Authored obstacles come on screen as the course reaches them
+    while (levelCursor < level.obstacles.length && level.obstacles[levelCursor].x - state.distance <= config.width) {
+      obstacles = obstacles.concat(toObstacle(level.obstacles[levelCursor++], config, nextId++, state.distance));
+    }
+    while (collectibleCursor < level.collectibles.length && level.collectibles[collectibleCursor].x - state.distance <= config.width) {
+      collectibles = collectibles.concat(toCollectible(level.collectibles[collectibleCursor++], nextId++, state.distance));
+    }
+  } else if (distance >= nextSpawnDistance) {
+    // The layout is worked out as of the exact distance it was due at, from the course alone.
+    // Neither the player nor how far this tick happened to overshoot (slow-mo changes that) can
+    // affect it, so a seed always lays out the same course.
+    const lead = Math.max(0, nextSpawnDistance - state.distance);
+    const passed = obstacles.filter(obstacle => obstacle.x - lead + obstacle.width < 0);
+    const ahead = obstacles.filter(obstacle => !passed.includes(obstacle)).map(obstacle => ({ ...obstacle, x: obstacle.x - lead }));
+    const courseScore = baseScore + passed.length * 10;
+    const courseLevel = getDifficultyLevel(courseScore);
+    const courseSpeed = getGameSpeed(config, courseScore, nextSpawnDistance);
+    const probe = { config, score: courseScore, distance: nextSpawnDistance, gameSpeed: courseSpeed };
+
+    const shift = <T extends { x: number }>(items: T[], by: number) => items.map(item => ({ ...item, x: item.x + by }));
+    // Layouts come in a flip's worth of travel past the edge of the screen, so a player caught
+    // mid-flip as one appears still has time to get out of its way
+    const approach = FLIP_DURATION * courseSpeed;
+
+    // Every spawn takes exactly one draw from the gameplay stream, however many layouts it tries
+    const spawnRng = createRng(rng.int(4294967296));
+    const candidates = Array.from({ length: SPAWN_ATTEMPTS }, () => {
+      const { obstacles, collectibles } = buildPattern(pickPattern(spawnRng, courseLevel), config, spawnRng, nextId);
+      return { obstacles: shift(obstacles, approach), collectibles: shift(collectibles, approach) };
+    });
+    const bonus = spawnRng.chance(POWER_UP_CHANCE) ? createPowerUp(spawnRng, config, 0, 0) : null;
+
+    // A new layout only has to allow for where the obstacles already out there leave the player a
+    // way through from. With nowhere left, the new ones aren't to blame and the first is taken.
+    const entries = findSurvivors({ ...probe, obstacles: ahead }, getEntryStates(config));
+    const spawned = candidates.find(candidate => isPassable({ ...probe, obstacles: ahead.concat(candidate.obstacles) }, entries));
+
+    if (spawned) {
+      // Placed where they would have been had this tick ended exactly at the spawn distance
+      obstacles = obstacles.concat(shift(spawned.obstacles, lead));
+      collectibles = collectibles.concat(shift(spawned.collectibles, lead));
+      nextId += spawned.obstacles.length + spawned.collectibles.length;
+      nextSpawnDistance += getObstacleSpacing(courseLevel) * courseSpeed;
+      if (bonus) {
+        const end = Math.max(...spawned.obstacles.map(obstacle => obstacle.x + obstacle.width));
+        powerUps = powerUps.concat({ ...bonus, id: nextId++, x: end + POWER_UP_OFFSET + lead });
+      }
+    } else {
+      // Give the player some room and try again shortly
+      nextSpawnDistance += SPAWN_RETRY_DELAY * courseSpeed;
+    }
+  }
+
+  // Move obstacles, award points for cleared ones and check collisions
+  const hitbox = getPlayerHitbox(player, config);
+  const nearbox = {
+    ...hitbox,
+    x: hitbox.x - NEAR_MISS_MARGIN,
+    y: hitbox.y - NEAR_MISS_MARGIN,
+    width: hitbox.width + NEAR_MISS_MARGIN * 2,
+    height: hitbox.height + NEAR_MISS_MARGIN * 2
+  };
+  obstacles = obstacles.reduce<Obstacle[]>((kept, obstacle) => {
+    const moved = { ...obstacle, x: obstacle.x - scroll };
+
+    if (moved.x + moved.width < 0) {
+      baseScore += 10;
+      score += effects.double > 0 ? 20 : 10;
+      events.push({ type: "score", score });
+      return kept;
+    }
+
+    const contact = over || moved.shattered ? null : intersect(hitbox, getObstacleShape(moved));
+    if (contact && effects.shield > 0) {
+      effects.shield = 0;
+      events.push({ type: "shielded", obstacle: moved });
+      const debris = createParticles(effectsRng, contact.x, contact.y, nextId);
+      particles = particles.concat(debris);
+      nextId += debris.length;
+      // Scrolls on unseen and still scores, so the difficulty ramp doesn't depend on the shield
+      kept.push({ ...moved, shattered: true });
+      return kept;
+    }
+    if (contact && level && hits + 1 < level.lives) {
+      hits++;
+      events.push({ type: "hit", obstacle: moved, hits });
+      const debris = createParticles(effectsRng, contact.x, contact.y, nextId);
+      particles = particles.concat(debris);
+      nextId += debris.length;
+      return kept;
+    }
+    if (contact) {
+      over = true;
+      death = { obstacle: moved, contact, tick };
+      events.push({ type: "crash", death });
+      return kept;
+    }
+
+    if (!over && !moved.shattered && !moved.grazed && intersect(nearbox, getObstacleShape(moved))) moved.grazed = true;
+    // Only counted once the obstacle is safely behind the player
+    if (moved.grazed && obstacle.x + obstacle.width >= hitbox.x && moved.x + moved.width < hitbox.x) {
+      events.push({ type: "nearMiss", obstacle: moved });
+    }
+
+    kept.push(moved);
+    return kept;
+  }, []);
+
+  // Pick up collectibles the player touches, pulling nearby ones in while magnetised
+  const body = { kind: "rect" as const, x: player.x, y: player.y, width: player.width, height: player.height };
+  const centerX = player.x + player.width / 2;
+  const centerY = player.y + player.height / 2;
+  collectibles = collectibles.reduce<Collectible[]>((kept, collectible) => {
+    const moved = { ...collectible, x: collectible.x - scroll };
+    if (moved.x + moved.radius < 0) return kept;
+
+    const away = Math.hypot(moved.x - centerX, moved.y - centerY);
+    if (effects.magnet > 0 && away < MAGNET_RADIUS && away > 0) {
+      const pull = Math.min(away, MAGNET_SPEED * dt) / away;
+      moved.x += (centerX - moved.x) * pull;
+      moved.y += (centerY - moved.y) * pull;
+    }
+
+    if (!over && intersect(body, { kind: "circle", x: moved.x, y: moved.y, radius: moved.radius })) {
+      collected++;
+      events.push({ type: "collect", collected });
+      return kept;
+    }
+
+    kept.push(moved);
+    return kept;
+  }, []);
+
+  powerUps = powerUps.reduce<PowerUp[]>((kept, powerUp) => {
+    const moved = { ...powerUp, x: powerUp.x - scroll };
+    if (moved.x + moved.radius < 0) return kept;
+
+    if (!over && intersect(body, { kind: "circle", x: moved.x, y: moved.y, radius: moved.radius })) {
+      effects[moved.kind] = POWER_UPS[moved.kind].duration;
+      events.push({ type: "powerUp", kind: moved.kind });
+      return kept;
+    }
+
+    kept.push(moved);
+    return kept;
+  }, []);
+
+  // A level is over once the player crosses its finish line
+  if (level && !over && distance + player.x >= level.length) {
+    over = true;
+    events.push({ type: "finish" });
+  }
+
+  // Burst into debris on a crash
+  if (death) {
+    const debris = createParticles(effectsRng, player.x + player.width / 2, player.y + player.height / 2, nextId, CRASH_PARTICLES);
+    particles = particles.concat(debris);
+    nextId += debris.length;
+  }
+
+  // Update particles
+  particles = updateParticles(particles, dt);
+
+  const gameSpeed = level ? getSection(level, distance + player.x).speed : getGameSpeed(config, baseScore, distance);
+
+  return {
+    ...state,
+    player,
+    obstacles,
+    collectibles,
+    powerUps,
+    effects,
+    particles,
+    gameSpeed,
+    nextSpawnDistance,
+    score,
+    baseScore,
+    distance,
+    rngState: rng.state(),
+    effectsRngState: effectsRng.state(),
+    tick,
+    time: now,
+    timeAlive,
+    nextId,
+    collected,
+    hits,
+    over,
+    death,
+    levelCursor,
+    collectibleCursor,
+    events
+  };
+};
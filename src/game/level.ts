@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { getCeilingY, getGroundY } from "./obstacles";
+import type { Collectible, GameConfig, Obstacle } from "./types";
+
+// Authored courses, as opposed to the procedurally spawned endless one. Positions are world
+// pixels along the course: after covering `distance` the screen shows `distance` to
+// `distance + config.width`, with the player a fixed `player.x` in from the left edge.
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+const levelObstacle = z.object({
+  shape: z.enum(["rect", "spike"]).default("rect"),
+  anchor: z.enum(["top", "bottom"]),
+  x: z.number().min(0),
+  width: z.number().positive(),
+  height: z.number().positive()
+});
+
+const levelCollectible = z.object({
+  x: z.number().min(0),
+  y: z.number()
+});
+
+// Scroll speed and gravity from `start` until the next section begins
+const levelSection = z.object({
+  start: z.number().min(0),
+  speed: z.number().positive(),
+  gravity: z.number().positive()
+});
+
+export const levelSchema = z.object({
+  version: z.literal(LEVEL_FORMAT_VERSION),
+  name: z.string(),
+  // Distance from the start to the finish line
+  length: z.number().positive(),
+  // Collisions it takes to end a run; any before that just shatter the obstacle
+  lives: z.number().int().min(1).default(3),
+  sections: z.array(levelSection).min(1),
+  obstacles: z.array(levelObstacle),
+  collectibles: z.array(levelCollectible).default([])
+});
+
+export type Level = z.infer<typeof levelSchema>;
+export type LevelObstacle = Level["obstacles"][number];
+export type LevelSection = Level["sections"][number];
+export type LevelCollectible = Level["collectibles"][number];
+
+// Throws if `data` isn't a valid level
+export const parseLevel = (data: unknown): Level => levelSchema.parse(data);
+
+export const createEmptyLevel = (config: GameConfig, name = "Untitled"): Level => ({
+  version: LEVEL_FORMAT_VERSION,
+  name,
+  length: 4000,
+  lives: 3,
+  sections: [{ start: 0, speed: config.baseSpeed, gravity: config.gravity }],
+  obstacles: [],
+  collectibles: []
+});
+
+// The section in effect at world position `x`; before the first section starts, that one
+export const getSection = (level: Level, x: number): LevelSection => {
+  const sorted = [...level.sections].sort((a, b) => a.start - b.start);
+  return [...sorted].reverse().find(section => section.start <= x) ?? sorted[0];
+};
+
+// Places a level obstacle on screen for a run that has covered `distance` pixels
+export const toObstacle = (piece: LevelObstacle, config: GameConfig, id: number, distance: number): Obstacle => {
+  const isTop = piece.anchor === "top";
+  return {
+    id,
+    shape: piece.shape,
+    x: piece.x - distance,
+    y: isTop ? getCeilingY(config) : getGroundY(config) - piece.height,
+    width: piece.width,
+    height: piece.height,
+    isTop
+  };
+};
+
+export const COLLECTIBLE_RADIUS = 8;
+
+export const toCollectible = (piece: LevelCollectible, id: number, distance: number): Collectible => ({
+  id,
+  x: piece.x - distance,
+  y: piece.y,
+  radius: COLLECTIBLE_RADIUS
+});
@@ -0,0 +1,45 @@
+import { TICK_DURATION } from "./physics";
+
+export interface GameLoop {
+  start: () => void;
+  stop: () => void;
+}
+
+// Longest frame we try to catch up on, so a stalled tab doesn't spiral into thousands of ticks
+const MAX_FRAME_TIME = 0.25;
+
+// Runs `tick` at a fixed rate from requestAnimationFrame and calls `render` once per frame
+// with how far (0..1) the clock sits between the last tick and the next one
+export const createGameLoop = (tick: () => void, render: (alpha: number) => void): GameLoop => {
+  let frame: number | undefined;
+  let lastTime = 0;
+  let accumulator = 0;
+
+  const onFrame = (time: number) => {
+    const frameTime = Math.min(MAX_FRAME_TIME, (time - lastTime) / 1000);
+    lastTime = time;
+    accumulator += frameTime;
+
+    while (accumulator >= TICK_DURATION) {
+      tick();
+      accumulator -= TICK_DURATION;
+    }
+
+    render(accumulator / TICK_DURATION);
+    // `tick` or `render` may have stopped the loop
+    if (frame !== undefined) frame = requestAnimationFrame(onFrame);
+  };
+
+  return {
+    start: () => {
+      if (frame !== undefined) return;
+      lastTime = performance.now();
+      accumulator = 0;
+      frame = requestAnimationFrame(onFrame);
+    },
+    stop: () => {
+      if (frame !== undefined) cancelAnimationFrame(frame);
+      frame = undefined;
+    }
+  };
+};
@@ -0,0 +1,18 @@
+import type { Shape } from "./collision";
+import type { GameConfig, Obstacle } from "./types";
+
+export const getCeilingY = (config: GameConfig) => config.boundary;
+export const getGroundY = (config: GameConfig) => config.height - config.boundary;
+
+export const getObstacleShape = (obstacle: Obstacle): Shape => {
+  const { x, y, width, height } = obstacle;
+  if (obstacle.shape === "rect") return { kind: "rect", x, y, width, height };
+
+  return obstacle.isTop
+    ? { kind: "triangle", points: [{ x, y }, { x: x + width, y }, { x: x + width / 2, y: y + height }] }
+    : { kind: "triangle", points: [{ x, y: y + height }, { x: x + width, y: y + height }, { x: x + width / 2, y }] };
+};
+
+// Short human-readable name, e.g. for the cause of a death
+export const describeObstacle = (obstacle: Obstacle) =>
+  `${obstacle.isTop ? "ceiling" : "floor"} ${obstacle.shape === "spike" ? "spike" : "wall"}`;
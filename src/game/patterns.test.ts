@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG } from "./engine";
+import { getCeilingY, getGroundY } from "./obstacles";
+import { buildPattern, getPatterns, patternSchema, pickPattern, registerPattern } from "./patterns";
+import defaultPatterns from "./patterns.json";
+import { createRng } from "./rng";
+
+describe("bundled patterns", () => {
+  it("all parse and are registered under distinct ids", () => {
+    defaultPatterns.forEach(definition => expect(patternSchema.safeParse(definition).success).toBe(true));
+    const ids = getPatterns().map(pattern => pattern.id);
+    expect(new Set(ids).size).toBe(defaultPatterns.length);
+  });
+
+  it("leave something to pick from the first level", () => {
+    expect(getPatterns().some(pattern => pattern.minLevel === 0)).toBe(true);
+    expect(pickPattern(createRng(1), 0).minLevel).toBe(0);
+  });
+
+  it("build obstacles between the ceiling and the floor", () => {
+    const config = DEFAULT_CONFIG;
+    const rng = createRng(7);
+    getPatterns().forEach(pattern => {
+      for (let i = 0; i < 20; i++) {
+        const { obstacles } = buildPattern(pattern, config, rng, 0);
+        expect(obstacles.length).toBeGreaterThan(0);
+        obstacles.forEach(obstacle => {
+          expect(obstacle.y).toBeGreaterThanOrEqual(getCeilingY(config));
+          expect(obstacle.y + obstacle.height).toBeLessThanOrEqual(getGroundY(config));
+        });
+      }
+    });
+  });
+});
+
+describe("registerPattern", () => {
+  it("rejects a malformed pattern, naming the field at fault", () => {
+    const sideways = { id: "sideways", pieces: [{ type: "block", anchor: "sideways", width: 20, height: 40 }] };
+    expect(() => registerPattern(sideways)).toThrow(/anchor/);
+    expect(getPatterns().map(pattern => pattern.id)).not.toContain("sideways");
+  });
+
+  it("rejects a pattern with no pieces or an unknown piece type", () => {
+    expect(() => registerPattern({ id: "empty", pieces: [] })).toThrow(/pieces/);
+    expect(() => registerPattern({ id: "ramp", pieces: [{ type: "ramp", width: 20 }] })).toThrow(/type/);
+  });
+
+  it("fills in the defaults", () => {
+    const parsed = patternSchema.parse({ id: "wall", pieces: [{ type: "block", anchor: "top", width: 20, height: [40, 80] }] });
+    expect(parsed).toMatchObject({ minLevel: 0, weight: 1, pieces: [{ shape: "rect", x: 0, repeat: 1, spacing: 0, orb: false }] });
+  });
+});
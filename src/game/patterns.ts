@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { COLLECTIBLE_RADIUS } from "./level";
+import { getCeilingY, getGroundY } from "./obstacles";
+import type { Rng } from "./rng";
+import type { Collectible, GameConfig, Obstacle } from "./types";
+import defaultPatterns from "./patterns.json";
+
+// Obstacle patterns are plain data so new ones can be added without touching the engine.
+// Sizes are in pixels; a [min, max] pair is rolled fresh for every spawn. `x` is the offset
+// from the right edge of the screen where the pattern enters.
+
+const range = z.union([z.number(), z.tuple([z.number(), z.number()])]);
+export type Range = z.infer<typeof range>;
+
+const blockPiece = z.object({
+  type: z.literal("block"),
+  shape: z.enum(["rect", "spike"]).default("rect"),
+  // Which boundary the block hangs from
+  anchor: z.enum(["top", "bottom", "random"]),
+  x: range.default(0),
+  width: range,
+  height: range,
+  // Lay out several copies, each rolled separately, `spacing` pixels apart
+  repeat: range.default(1),
+  spacing: z.number().default(0),
+  // Put an orb just past the tip of the middle copy, where grabbing it means skimming the block
+  orb: z.boolean().default(false)
+});
+
+// A top and a bottom wall leaving an opening of `gap` pixels, `offset` below the ceiling
+const gapPiece = z.object({
+  type: z.literal("gap"),
+  x: range.default(0),
+  width: range,
+  gap: range,
+  offset: range,
+  // Put an orb in the middle of the opening
+  orb: z.boolean().default(false)
+});
+
+export const patternSchema = z.object({
+  id: z.string(),
+  // Lowest difficulty level (see getDifficultyLevel) the pattern can appear at
+  minLevel: z.number().int().min(0).default(0),
+  // Relative odds against the other available patterns
+  weight: z.number().positive().default(1),
+  pieces: z.array(z.discriminatedUnion("type", [blockPiece, gapPiece])).min(1)
+});
+
+export type ObstaclePattern = z.infer<typeof patternSchema>;
+type Piece = ObstaclePattern["pieces"][number];
+
+const registry = new Map<string, ObstaclePattern>();
+
+// Adds or replaces a pattern; throws if the definition is malformed
+export const registerPattern = (definition: unknown) => {
+  const pattern = patternSchema.parse(definition);
+  registry.set(pattern.id, pattern);
+  return pattern;
+};
+
+export const getPatterns = () => [...registry.values()];
+
+defaultPatterns.forEach(registerPattern);
+
+const roll = (rng: Rng, value: Range) => typeof value === "number" ? value : rng.range(value[0], value[1]);
+const rollInt = (rng: Rng, value: Range) =>
+  typeof value === "number" ? value : value[0] + rng.int(value[1] - value[0] + 1);
+
+export interface BuiltPattern {
+  obstacles: Obstacle[];
+  collectibles: Collectible[];
+}
+
+// Gap between an orb and the tip it sits beyond
+const ORB_CLEARANCE = 6;
+
+const buildPiece = (piece: Piece, config: GameConfig, rng: Rng, firstId: number): BuiltPattern => {
+  const ceilingY = getCeilingY(config);
+  const groundY = getGroundY(config);
+
+  if (piece.type === "gap") {
+    const x = config.width + roll(rng, piece.x);
+    const width = roll(rng, piece.width);
+    const gapStart = ceilingY + roll(rng, piece.offset);
+    const gapEnd = Math.min(groundY, gapStart + roll(rng, piece.gap));
+    const obstacles: Obstacle[] = [
+      { id: firstId, shape: "rect", x, y: ceilingY, width, height: gapStart - ceilingY, isTop: true },
+      { id: firstId + 1, shape: "rect", x, y: gapEnd, width, height: groundY - gapEnd, isTop: false }
+    ];
+    const collectibles = piece.orb
+      ? [{ id: firstId + 2, x: x + width / 2, y: (gapStart + gapEnd) / 2, radius: COLLECTIBLE_RADIUS }]
+      : [];
+    return { obstacles, collectibles };
+  }
+
+  const obstacles: Obstacle[] = [];
+  const count = rollInt(rng, piece.repeat);
+  for (let i = 0; i < count; i++) {
+    const isTop = piece.anchor === "random" ? rng.chance(0.5) : piece.anchor === "top";
+    const height = roll(rng, piece.height);
+    obstacles.push({
+      id: firstId + i,
+      shape: piece.shape,
+      x: config.width + roll(rng, piece.x) + i * piece.spacing,
+      y: isTop ? ceilingY : groundY - height,
+      width: roll(rng, piece.width),
+      height,
+      isTop
+    });
+  }
+
+  const collectibles: Collectible[] = [];
+  const middle = obstacles[Math.floor(obstacles.length / 2)];
+  if (piece.orb && middle) {
+    const offset = COLLECTIBLE_RADIUS + ORB_CLEARANCE;
+    collectibles.push({
+      id: firstId + count,
+      x: middle.x + middle.width / 2,
+      y: middle.isTop ? middle.y + middle.height + offset : middle.y - offset,
+      radius: COLLECTIBLE_RADIUS
+    });
+  }
+  return { obstacles, collectibles };
+};
+
+export const buildPattern = (pattern: ObstaclePattern, config: GameConfig, rng: Rng, firstId: number) =>
+  pattern.pieces.reduce<BuiltPattern>((built, piece) => {
+    const next = buildPiece(piece, config, rng, firstId + built.obstacles.length + built.collectibles.length);
+    return {
+      obstacles: built.obstacles.concat(next.obstacles),
+      collectibles: built.collectibles.concat(next.collectibles)
+    };
+  }, { obstacles: [], collectibles: [] });
+
+// Weighted pick among the patterns unlocked at `level`
+export const pickPattern = (rng: Rng, level: number): ObstaclePattern => {
+  const available = getPatterns().filter(pattern => pattern.minLevel <= level);
+  let remaining = rng.next() * available.reduce((total, pattern) => total + pattern.weight, 0);
+  for (const pattern of available) {
+    remaining -= pattern.weight;
+    if (remaining < 0) return pattern;
+  }
+  return available[available.length - 1];
+};
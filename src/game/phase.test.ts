@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createPhaseState, RESTART_LOCKOUT, transition, type GamePhase, type PhaseEvent } from "./phase";
+
+const at = (phase: GamePhase, enteredAt = 0) => ({ phase, enteredAt });
+
+describe("transition", () => {
+  it("starts on the title screen", () => {
+    expect(createPhaseState(5)).toEqual({ phase: "title", enteredAt: 5 });
+  });
+
+  it.each<[GamePhase, PhaseEvent, GamePhase]>([
+    ["title", "start", "countdown"],
+    ["countdown", "countdownDone", "playing"],
+    ["countdown", "pause", "paused"],
+    ["playing", "pause", "paused"],
+    ["playing", "start", "countdown"],
+    ["playing", "crash", "dying"],
+    ["playing", "finish", "results"],
+    ["paused", "resume", "countdown"],
+    ["paused", "start", "countdown"],
+    ["dying", "deathDone", "results"]
+  ])("goes from %s on %s to %s", (from, event, to) => {
+    expect(transition(at(from), event, 100)).toEqual({ phase: to, enteredAt: 100 });
+  });
+
+  it.each<[GamePhase, PhaseEvent]>([
+    ["title", "pause"],
+    ["title", "crash"],
+    ["countdown", "start"],
+    ["countdown", "crash"],
+    ["playing", "resume"],
+    ["playing", "deathDone"],
+    ["paused", "crash"],
+    ["paused", "countdownDone"],
+    ["dying", "start"],
+    ["dying", "pause"],
+    ["results", "crash"],
+    ["results", "resume"]
+  ])("refuses, from %s, a %s", (from, event) => {
+    expect(transition(at(from), event, 100)).toBeNull();
+  });
+
+  it("holds off restarting from the results until the lockout has passed", () => {
+    const results = at("results", 1000);
+    expect(transition(results, "start", 1000)).toBeNull();
+    expect(transition(results, "start", 1000 + RESTART_LOCKOUT - 1)).toBeNull();
+    expect(transition(results, "start", 1000 + RESTART_LOCKOUT)).toEqual({ phase: "countdown", enteredAt: 1000 + RESTART_LOCKOUT });
+  });
+});
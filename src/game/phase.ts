@@ -0,0 +1,58 @@
+// Screen-level flow of a run, independent of the simulation itself:
+// title → countdown → playing ⇄ paused, playing → dying → results → countdown …
+// Finishing a level skips the death animation and goes straight from playing to results.
+export type GamePhase = "title" | "countdown" | "playing" | "paused" | "dying" | "results";
+
+export type PhaseEvent = "start" | "countdownDone" | "pause" | "resume" | "crash" | "finish" | "deathDone";
+
+export interface PhaseState {
+  phase: GamePhase;
+  // performance.now() timestamp of when the phase was entered
+  enteredAt: number;
+}
+
+export const COUNTDOWN_SECONDS = 3;
+export const DEATH_DURATION = 800;
+// Ignore restarts for a moment after the results appear, so a flip held through the crash
+// doesn't throw the player straight into another run
+export const RESTART_LOCKOUT = 400;
+
+interface Transition {
+  to: GamePhase;
+  guard?: (state: PhaseState, now: number) => boolean;
+}
+
+const TRANSITIONS: Record<GamePhase, Partial<Record<PhaseEvent, Transition>>> = {
+  title: {
+    start: { to: "countdown" }
+  },
+  countdown: {
+    countdownDone: { to: "playing" },
+    pause: { to: "paused" }
+  },
+  playing: {
+    pause: { to: "paused" },
+    start: { to: "countdown" },
+    crash: { to: "dying" },
+    finish: { to: "results" }
+  },
+  paused: {
+    resume: { to: "countdown" },
+    start: { to: "countdown" }
+  },
+  dying: {
+    deathDone: { to: "results" }
+  },
+  results: {
+    start: { to: "countdown", guard: (state, now) => now - state.enteredAt >= RESTART_LOCKOUT }
+  }
+};
+
+export const createPhaseState = (now: number): PhaseState => ({ phase: "title", enteredAt: now });
+
+// Returns the next phase, or null when `event` is not allowed right now
+export const transition = (state: PhaseState, event: PhaseEvent, now: number): PhaseState | null => {
+  const next = TRANSITIONS[state.phase][event];
+  if (!next || (next.guard && !next.guard(state, now))) return null;
+  return { phase: next.to, enteredAt: now };
+};
@@ -0,0 +1,65 @@
+import { shrinkRect } from "./collision";
+import { getCeilingY, getGroundY } from "./obstacles";
+import type { GameConfig, Player } from "./types";
+
+// The simulation always advances in fixed steps of TICK_DURATION seconds
+export const TICK_RATE = 60;
+export const TICK_DURATION = 1 / TICK_RATE;
+
+export const FLIP_DURATION = 0.3;
+
+export const getDifficultyLevel = (score: number) => Math.floor(score / 100);
+
+// Progressive speed increase - gets faster with distance and levels
+export const getGameSpeed = (config: GameConfig, score: number, distance: number) => {
+  const speedMultiplier = 1 + (getDifficultyLevel(score) * 0.3) + (distance * 0.0001);
+  return Math.min(config.maxSpeed, config.baseSpeed * speedMultiplier);
+};
+
+// The player runs at a fixed spot a little in from the left edge
+export const getPlayerX = (config: GameConfig) => config.width * 0.15;
+
+export const getPlayerHitbox = (player: Player, config: GameConfig) =>
+  shrinkRect({ kind: "rect", x: player.x, y: player.y, width: player.width, height: player.height }, config.hitboxShrink);
+
+// Flip, gravity and floor/ceiling contact for one tick ending at `now`
+export const updatePlayer = (previous: Player, flip: boolean, config: GameConfig, now: number): Player => {
+  const player = { ...previous };
+  const dt = TICK_DURATION;
+
+  if (flip && !player.isFlipping) {
+    player.gravityFlipped = !player.gravityFlipped;
+    player.isFlipping = true;
+    player.flipStartTime = now;
+    player.velocityY = player.gravityFlipped ? config.jumpForce : -config.jumpForce;
+  }
+
+  // Update flip animation
+  if (player.isFlipping && now - player.flipStartTime > FLIP_DURATION) {
+    player.isFlipping = false;
+  }
+
+  // Apply gravity
+  player.velocityY += (player.gravityFlipped ? -config.gravity : config.gravity) * dt;
+  player.y += player.velocityY * dt;
+
+  // Ground/ceiling collision
+  const groundY = getGroundY(config);
+  const ceilingY = getCeilingY(config);
+
+  if (!player.gravityFlipped) {
+    player.onGround = player.y + player.height >= groundY;
+    if (player.onGround) {
+      player.y = groundY - player.height;
+      player.velocityY = 0;
+    }
+  } else {
+    player.onGround = player.y <= ceilingY;
+    if (player.onGround) {
+      player.y = ceilingY;
+      player.velocityY = 0;
+    }
+  }
+
+  return player;
+};
@@ -0,0 +1,51 @@
+import type { Rng } from "./rng";
+import type { GameConfig, GameState, PowerUp, PowerUpKind } from "./types";
+import { getCeilingY, getGroundY } from "./obstacles";
+
+export interface PowerUpDefinition {
+  label: string;
+  // Seconds the effect lasts once picked up; a shield also ends when it absorbs a hit
+  duration: number;
+  color: string;
+  // Drawn inside the pickup
+  glyph: string;
+}
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpDefinition> = {
+  shield: { label: "Shield", duration: 10, color: "hsl(200, 100%, 60%)", glyph: "S" },
+  slowmo: { label: "Slow-mo", duration: 5, color: "hsl(280, 100%, 70%)", glyph: "½" },
+  magnet: { label: "Magnet", duration: 8, color: "hsl(320, 100%, 60%)", glyph: "M" },
+  double: { label: "2x Score", duration: 10, color: "hsl(120, 100%, 55%)", glyph: "2×" }
+};
+
+export const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+export const POWER_UP_RADIUS = 12;
+// Odds of a power-up following a freshly spawned obstacle pattern
+export const POWER_UP_CHANCE = 0.12;
+// Fraction of normal scroll speed while slow-mo is active
+export const SLOW_MO_FACTOR = 0.5;
+// Collectibles within this many pixels drift towards a magnetised player
+export const MAGNET_RADIUS = 150;
+export const MAGNET_SPEED = 600;
+
+export const createEffects = (): Record<PowerUpKind, number> => ({ shield: 0, slowmo: 0, magnet: 0, double: 0 });
+
+export const isActive = (state: GameState, kind: PowerUpKind) => state.effects[kind] > 0;
+
+// How fast the course actually scrolls. `gameSpeed` itself keeps following the speed ramp, so
+// when slow-mo wears off the game is exactly as fast as it would have been without it.
+export const getScrollSpeed = (state: GameState) =>
+  state.gameSpeed * (isActive(state, "slowmo") ? SLOW_MO_FACTOR : 1);
+
+// A random power-up floating somewhere in the playfield at `x`
+export const createPowerUp = (rng: Rng, config: GameConfig, x: number, id: number): PowerUp => {
+  const margin = POWER_UP_RADIUS * 3;
+  return {
+    id,
+    kind: POWER_UP_KINDS[rng.int(POWER_UP_KINDS.length)],
+    x,
+    y: rng.range(getCeilingY(config) + margin, getGroundY(config) - margin),
+    radius: POWER_UP_RADIUS
+  };
+};
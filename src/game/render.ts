@@ -0,0 +1,231 @@
+import { DEFAULT_SKIN, type Skin } from "./cosmetics";
+import { FLIP_DURATION } from "./physics";
+import { POWER_UPS } from "./powerups";
+import { getCeilingY, getGroundY, getObstacleShape } from "./obstacles";
+import type { GameState, Obstacle, Player } from "./types";
+import type { Settings } from "@/lib/settings";
+
+const traceSkin = (ctx: CanvasRenderingContext2D, skin: Skin, width: number, height: number) => {
+  ctx.beginPath();
+  if (skin.shape === 'circle') {
+    ctx.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else if (skin.shape === 'diamond') {
+    ctx.moveTo(width / 2, 0);
+    ctx.lineTo(width, height / 2);
+    ctx.lineTo(width / 2, height);
+    ctx.lineTo(0, height / 2);
+  } else if (skin.shape === 'triangle') {
+    // Points the way the player is running
+    ctx.moveTo(0, 0);
+    ctx.lineTo(width, height / 2);
+    ctx.lineTo(0, height);
+  } else {
+    ctx.rect(0, 0, width, height);
+  }
+  ctx.closePath();
+};
+
+export interface PlayerStyle {
+  color?: string;
+  glow?: boolean;
+  // Flip squash and pulsing glow
+  animate?: boolean;
+}
+
+// Draws the player with its flip animation, in `skin`'s shape and glow
+export const drawPlayer = (
+  ctx: CanvasRenderingContext2D,
+  player: Player,
+  time: number,
+  skin: Skin,
+  { color = skin.color, glow = true, animate = true }: PlayerStyle = {}
+) => {
+  ctx.save();
+  if (player.isFlipping && animate) {
+    const flipProgress = (time - player.flipStartTime) / FLIP_DURATION;
+    const scale = 1 + Math.sin(flipProgress * Math.PI) * 0.3;
+    ctx.translate(player.x + player.width/2, player.y + player.height/2);
+    ctx.scale(scale, 1);
+    ctx.translate(-player.width/2, -player.height/2);
+  } else {
+    ctx.translate(player.x, player.y);
+  }
+
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = !glow ? 0 : skin.pulse && animate ? skin.glow * (1 + Math.sin(time * 6)) : skin.glow;
+  traceSkin(ctx, skin, player.width, player.height);
+  ctx.fill();
+  ctx.restore();
+};
+
+export const drawObstacle = (ctx: CanvasRenderingContext2D, obstacle: Obstacle, color = 'hsl(0, 100%, 60%)', glow = true) => {
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = glow ? 10 : 0;
+  const shape = getObstacleShape(obstacle);
+  if (shape.kind === 'triangle') {
+    ctx.beginPath();
+    shape.points.forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+  }
+};
+
+export interface RenderOptions {
+  // Another run on the same course, drawn translucent behind the player
+  ghost?: GameState;
+  // 0..1 through the death animation, once the run has crashed
+  deathProgress?: number;
+  skin?: Skin;
+  quality?: Settings["effectsQuality"];
+  // Holds back pulsing, flickering and squashing
+  reducedMotion?: boolean;
+  // Pixels to jolt the whole frame by, e.g. right after a hit
+  shake?: number;
+}
+
+// Draws a full frame of `state` onto a canvas sized to its config
+export const drawGame = (ctx: CanvasRenderingContext2D, state: GameState, {
+  ghost,
+  deathProgress,
+  skin = DEFAULT_SKIN,
+  quality = "high",
+  reducedMotion = false,
+  shake = 0
+}: RenderOptions = {}) => {
+  const player = state.player;
+  const { config } = state;
+  const glow = quality === "high";
+  const blur = (amount: number) => glow ? amount : 0;
+  const animate = !reducedMotion;
+
+  // Clear canvas with gradient background
+  const gradient = ctx.createLinearGradient(0, 0, 0, config.height);
+  gradient.addColorStop(0, 'hsl(220, 25%, 4%)');
+  gradient.addColorStop(1, 'hsl(220, 20%, 6%)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, config.width, config.height);
+
+  // Everything but the background jolts with the shake
+  ctx.save();
+  if (shake > 0) {
+    ctx.translate(Math.sin(state.time * 97) * shake, Math.cos(state.time * 83) * shake);
+  }
+
+  // Draw floor and ceiling
+  ctx.fillStyle = 'hsl(200, 80%, 50%)';
+  ctx.shadowColor = 'hsl(200, 80%, 50%)';
+  ctx.shadowBlur = blur(10);
+  ctx.fillRect(0, getGroundY(config), config.width, config.boundary);
+  ctx.fillRect(0, 0, config.width, getCeilingY(config));
+  ctx.shadowBlur = 0;
+
+  // Draw the finish line of a level once it comes into view
+  if (state.level) {
+    const finishX = state.level.length - state.distance;
+    if (finishX < config.width) {
+      const size = 10;
+      for (let y = getCeilingY(config); y < getGroundY(config); y += size) {
+        for (let column = 0; column < 2; column++) {
+          ctx.fillStyle = (y / size + column) % 2 < 1 ? 'hsl(0, 0%, 95%)' : 'hsl(220, 20%, 15%)';
+          ctx.fillRect(finishX + column * size, y, size, size);
+        }
+      }
+    }
+  }
+
+  // Draw collectibles
+  state.collectibles.forEach(collectible => {
+    const pulse = animate ? 1 + Math.sin(state.time * 6 + collectible.id) * 0.15 : 1;
+    ctx.save();
+    ctx.fillStyle = 'hsl(50, 100%, 60%)';
+    ctx.shadowColor = 'hsl(50, 100%, 60%)';
+    ctx.shadowBlur = blur(12);
+    ctx.beginPath();
+    ctx.arc(collectible.x, collectible.y, collectible.radius * pulse, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  // Draw power-ups as neon rings around their glyph
+  state.powerUps.forEach(powerUp => {
+    const { color, glyph } = POWER_UPS[powerUp.kind];
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = blur(15);
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(powerUp.x, powerUp.y, powerUp.radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(glyph, powerUp.x, powerUp.y);
+    ctx.restore();
+  });
+
+  // Draw particles
+  if (quality !== "low") {
+    state.particles.forEach(particle => {
+      ctx.save();
+      ctx.globalAlpha = particle.life;
+      ctx.fillStyle = particle.color ?? 'hsl(180, 100%, 80%)';
+      ctx.shadowColor = particle.color ?? 'hsl(180, 100%, 80%)';
+      ctx.shadowBlur = blur(5);
+      ctx.fillRect(particle.x, particle.y, 3, 3);
+      ctx.restore();
+    });
+  }
+
+  // Draw the ghost underneath the live player
+  if (ghost) {
+    ctx.save();
+    ctx.globalAlpha = 0.35;
+    drawPlayer(ctx, ghost.player, ghost.time, skin, { color: 'hsl(180, 100%, 60%)', glow, animate });
+    ctx.restore();
+  }
+
+  if (deathProgress === undefined) {
+    drawPlayer(ctx, player, state.time, skin, { glow, animate });
+
+    // Shield bubble, flickering as it runs out
+    const shield = state.effects.shield;
+    if (shield > 0 && (shield > 2 || !animate || Math.floor(shield * 8) % 2 === 0)) {
+      const { color } = POWER_UPS.shield;
+      ctx.save();
+      ctx.strokeStyle = color;
+      ctx.shadowColor = color;
+      ctx.shadowBlur = blur(15);
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(player.x + player.width / 2, player.y + player.height / 2, player.width, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
+    }
+  } else if (deathProgress < 1) {
+    // Flash red and swell out of existence
+    const size = animate ? 1 + deathProgress : 1;
+    ctx.save();
+    ctx.globalAlpha = 1 - deathProgress;
+    drawPlayer(ctx, {
+      ...player,
+      x: player.x - player.width * (size - 1) / 2,
+      y: player.y - player.height * (size - 1) / 2,
+      width: player.width * size,
+      height: player.height * size,
+      isFlipping: false
+    }, state.time, skin, { color: 'hsl(0, 100%, 60%)', glow, animate });
+    ctx.restore();
+  }
+
+  // Draw obstacles
+  state.obstacles.forEach(obstacle => obstacle.shattered || drawObstacle(ctx, obstacle, undefined, glow));
+
+  ctx.shadowBlur = 0;
+  ctx.restore();
+};
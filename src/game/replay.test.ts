@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createGame, step } from "./engine";
+import { createRecorder, createReplayPlayer, type Replay } from "./replay";
+import type { GameState } from "./types";
+
+// Holds the flip while the next obstacle is on the player's side and close, which survives long
+// enough to cover several replay snapshots
+const avoid = (state: GameState) => {
+  const next = state.obstacles
+    .filter(obstacle => !obstacle.shattered && obstacle.x + obstacle.width >= state.player.x)
+    .sort((a, b) => a.x - b.x)[0];
+  return !!next && next.isTop === state.player.gravityFlipped && next.x - state.player.x < 120;
+};
+
+// A run recorded as the game would record it
+const recordRun = (seed: number) => {
+  const recorder = createRecorder({ seed, mode: "endless", difficulty: "normal" });
+  let state: GameState = createGame({}, seed);
+  while (!state.over) {
+    const input = { flip: avoid(state) };
+    state = step(state, input);
+    recorder.record(state.tick, input);
+  }
+  return { replay: recorder.finish(state), final: state };
+};
+
+const playToEnd = (replay: Replay) => {
+  const player = createReplayPlayer(replay);
+  while (!player.finished()) player.advance();
+  return player.state();
+};
+
+describe("replays", () => {
+  it.each([3, 77, 4096])("play seed %i back to the state the run ended in", seed => {
+    const { replay, final } = recordRun(seed);
+    expect(replay.ticks).toBeGreaterThan(1000);
+    expect(playToEnd(replay)).toEqual(final);
+  });
+
+  it("survive a trip through JSON", () => {
+    const { replay, final } = recordRun(3);
+    expect(playToEnd(JSON.parse(JSON.stringify(replay)))).toEqual(final);
+  });
+
+  it("seek to the same state whichever way they get there", () => {
+    const { replay } = recordRun(77);
+    const target = Math.floor(replay.ticks * 0.6);
+
+    const forwards = createReplayPlayer(replay);
+    forwards.seek(target);
+
+    const backwards = createReplayPlayer(replay);
+    backwards.seek(replay.ticks);
+    backwards.seek(target);
+
+    expect(forwards.state().tick).toBe(target);
+    expect(backwards.state()).toEqual(forwards.state());
+  });
+});
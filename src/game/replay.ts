@@ -0,0 +1,128 @@
+import { getCampaignLevel } from "./campaign";
+import { createGame, createLevelGame, DIFFICULTY_SETTINGS, ENGINE_VERSION, step } from "./engine";
+import type { Difficulty, GameInput, GameMode, GameState } from "./types";
+
+// A run is fully described by its seed and the flip input of every tick. Since the flip
+// control is held for many ticks at a time, only the ticks where it changes are stored.
+export interface Replay {
+  version: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  seed: number;
+  // Campaign level the run was on, if any
+  levelId?: string;
+  // Ticks on which the flip input toggles, starting from released
+  toggles: number[];
+  ticks: number;
+  score: number;
+  distance: number;
+  timeAlive: number;
+  collected: number;
+  hits: number;
+  // Whether the run crossed a level's finish line rather than crashing
+  completed: boolean;
+  recordedAt: number;
+}
+
+export interface ReplayRecorder {
+  // Call with the input passed to `step` for the tick `tick`
+  record: (tick: number, input: GameInput) => void;
+  finish: (state: GameState) => Replay;
+}
+
+export interface RecorderOptions {
+  seed: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  levelId?: string;
+}
+
+export const createRecorder = ({ seed, mode, difficulty, levelId }: RecorderOptions): ReplayRecorder => {
+  const toggles: number[] = [];
+  let held = false;
+
+  return {
+    record: (tick, input) => {
+      if (input.flip !== held) {
+        held = input.flip;
+        toggles.push(tick);
+      }
+    },
+    finish: state => ({
+      version: ENGINE_VERSION,
+      mode,
+      difficulty,
+      seed,
+      levelId,
+      toggles: [...toggles],
+      ticks: state.tick,
+      score: state.score,
+      distance: Math.floor(state.distance),
+      timeAlive: state.timeAlive,
+      collected: state.collected,
+      hits: state.hits,
+      completed: state.over && !state.death,
+      recordedAt: Date.now()
+    })
+  };
+};
+
+// Steps through a replay tick by tick, and can jump to any tick by re-simulating
+export interface ReplayPlayer {
+  state: () => GameState;
+  previous: () => GameState;
+  advance: () => void;
+  seek: (tick: number) => void;
+  finished: () => boolean;
+}
+
+// How often a snapshot is kept so seeking backwards doesn't replay from the start
+const SNAPSHOT_INTERVAL = 300;
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const snapshots = new Map<number, { state: GameState; cursor: number; held: boolean }>();
+  const settings = DIFFICULTY_SETTINGS[replay.difficulty ?? "normal"];
+  const campaignLevel = replay.levelId ? getCampaignLevel(replay.levelId) : undefined;
+  let state = campaignLevel
+    ? createLevelGame(campaignLevel.level, settings, 0, replay.seed)
+    : createGame(settings, replay.seed);
+  let previous = state;
+  let cursor = 0; // Index of the next toggle to apply
+  let held = false;
+  snapshots.set(0, { state, cursor, held });
+
+  const finished = () => state.over || state.tick >= replay.ticks;
+
+  const advance = () => {
+    if (finished()) return;
+    const tick = state.tick + 1;
+    while (cursor < replay.toggles.length && replay.toggles[cursor] <= tick) {
+      held = !held;
+      cursor++;
+    }
+    previous = state;
+    state = step(state, { flip: held });
+    if (state.tick % SNAPSHOT_INTERVAL === 0 && !snapshots.has(state.tick)) {
+      snapshots.set(state.tick, { state, cursor, held });
+    }
+  };
+
+  const seek = (tick: number) => {
+    const target = Math.max(0, Math.min(replay.ticks, Math.floor(tick)));
+    const from = snapshots.get(Math.floor(target / SNAPSHOT_INTERVAL) * SNAPSHOT_INTERVAL);
+    if (from && (target < state.tick || from.state.tick > state.tick)) {
+      ({ state, cursor, held } = from);
+    }
+    previous = state;
+    while (state.tick < target && !finished()) advance();
+    previous = state;
+  };
+
+  return {
+    state: () => state,
+    previous: () => previous,
+    advance,
+    seek,
+    finished
+  };
+};
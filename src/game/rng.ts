@@ -0,0 +1,46 @@
+// Mulberry32: tiny, fast and good enough for gameplay. The whole generator state is a
+// single 32-bit integer, so it can live inside GameState and be copied freely.
+
+export interface Rng {
+  // Uniform float in [0, 1)
+  next: () => number;
+  // Uniform float in [min, max)
+  range: (min: number, max: number) => number;
+  // Uniform integer in [0, count)
+  int: (count: number) => number;
+  chance: (probability: number) => boolean;
+  // Current generator state, to store back into GameState
+  state: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: count => Math.floor(next() * count),
+    chance: probability => next() < probability,
+    state: () => state
+  };
+};
+
+// FNV-1a, for turning text such as a date into a seed
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
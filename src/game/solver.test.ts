@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONFIG } from "./engine";
+import { getCeilingY, getGroundY } from "./obstacles";
+import { getPlayerX } from "./physics";
+import { findSurvivors, getEntryStates, isPassable, type PassabilityProbe } from "./solver";
+import type { Obstacle } from "./types";
+
+const config = DEFAULT_CONFIG;
+
+const probe = (obstacles: Obstacle[]): PassabilityProbe => ({
+  config,
+  obstacles,
+  score: 0,
+  distance: 0,
+  gameSpeed: config.baseSpeed
+});
+
+const block = (x: number, isTop: boolean, height: number, id = 1): Obstacle => ({
+  id,
+  shape: "rect",
+  x,
+  y: isTop ? getCeilingY(config) : getGroundY(config) - height,
+  width: 30,
+  height,
+  isTop
+});
+
+describe("isPassable", () => {
+  it("passes an empty stretch of course", () => {
+    expect(isPassable(probe([]))).toBe(true);
+  });
+
+  it("passes a block there is time to flip away from", () => {
+    expect(isPassable(probe([block(200, false, 60)]))).toBe(true);
+    expect(isPassable(probe([block(200, true, 60)]))).toBe(true);
+  });
+
+  it("rejects a wall from floor to ceiling", () => {
+    expect(isPassable(probe([block(200, false, getGroundY(config) - getCeilingY(config))]))).toBe(false);
+  });
+
+  it("rejects a block landing on a player resting on the floor, even though the ceiling is clear", () => {
+    expect(isPassable(probe([block(getPlayerX(config), false, 60)]))).toBe(false);
+  });
+
+  it("passes blocks on alternate sides that need a flip each", () => {
+    expect(isPassable(probe([block(200, false, 200, 1), block(500, true, 200, 2)]))).toBe(true);
+  });
+
+  it("checks from a player caught mid-flip as well as from one at rest", () => {
+    // Hangs in the middle of the corridor right where the player is, out of reach of both resting spots
+    const floating: Obstacle = { id: 1, shape: "rect", x: getPlayerX(config) - 10, y: config.height / 2 - 20, width: 60, height: 40, isTop: false };
+    const entries = getEntryStates(config);
+    const [floor, ceiling, ...airborne] = entries;
+
+    expect(airborne.length).toBeGreaterThan(0);
+    expect(airborne.every(player => !player.onGround)).toBe(true);
+    expect(isPassable(probe([floating]), [floor, ceiling])).toBe(true);
+    expect(isPassable(probe([floating]))).toBe(false);
+
+    const survivors = findSurvivors(probe([floating]), entries);
+    expect(survivors).toEqual(expect.arrayContaining([floor, ceiling]));
+    expect(survivors.length).toBeLessThan(entries.length);
+  });
+});
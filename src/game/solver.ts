@@ -0,0 +1,128 @@
+import { intersect } from "./collision";
+import { getCeilingY, getGroundY, getObstacleShape } from "./obstacles";
+import { getGameSpeed, getPlayerHitbox, getPlayerX, TICK_DURATION, TICK_RATE, updatePlayer } from "./physics";
+import type { GameConfig, Obstacle, Player } from "./types";
+
+// Everything here comes from the course alone, never from the player, so a seed lays out the
+// same course whatever anyone does on it.
+export interface PassabilityProbe {
+  config: GameConfig;
+  // Obstacles as they stand when the course reaches `distance`, before they scroll on
+  obstacles: Obstacle[];
+  score: number;
+  distance: number;
+  // Speed the course scrolls at from `distance`, ignoring slow-mo
+  gameSpeed: number;
+}
+
+// How far ahead to look at most
+const MAX_HORIZON = 4 * TICK_RATE;
+// Search states explored before we give up on finding a way through
+const NODE_BUDGET = 20000;
+
+// A flip from `start` tick by tick until it settles, timed as if each state were the present
+const getFlipArc = (start: Player, config: GameConfig) => {
+  const arc: Player[] = [];
+  let player = updatePlayer(start, true, config, 0);
+  for (let t = 1; player.isFlipping || !player.onGround; t++) {
+    arc.push({ ...player, flipStartTime: player.flipStartTime - (t - 1) * TICK_DURATION });
+    player = updatePlayer(player, false, config, t * TICK_DURATION);
+  }
+  return arc;
+};
+
+// Where the player may be when a layout comes on screen: settled on the floor or on the ceiling,
+// or anywhere along a flip from either. A layout has to be survivable from all of them.
+export const getEntryStates = (config: GameConfig): Player[] => {
+  const resting = {
+    x: getPlayerX(config),
+    width: config.playerSize,
+    height: config.playerSize,
+    velocityY: 0,
+    onGround: true,
+    isFlipping: false,
+    flipStartTime: 0
+  };
+  const settled = [
+    { ...resting, y: getGroundY(config) - config.playerSize, gravityFlipped: false },
+    { ...resting, y: getCeilingY(config), gravityFlipped: true }
+  ];
+  return settled.concat(settled.flatMap(start => getFlipArc(start, config)));
+};
+
+// Obstacle positions for every upcoming tick, mirroring how `step` scrolls and scores
+const buildTrack = ({ config, obstacles, score, distance, gameSpeed }: PassabilityProbe) => {
+  const track: Obstacle[][] = [];
+  const playerX = getPlayerX(config);
+  let current = obstacles;
+  let speed = gameSpeed;
+
+  for (let i = 0; i < MAX_HORIZON && current.length > 0; i++) {
+    if (i > 0) distance += speed * TICK_DURATION;
+    const moved: Obstacle[] = [];
+    current.forEach(obstacle => {
+      const x = obstacle.x - speed * TICK_DURATION;
+      if (x + obstacle.width < 0) {
+        score += 10;
+      } else {
+        moved.push({ ...obstacle, x });
+      }
+    });
+    // Only what can still reach the player matters from here on
+    current = moved.filter(obstacle => obstacle.x + obstacle.width >= playerX);
+    track.push(current);
+    speed = getGameSpeed(config, score, distance);
+  }
+  return track;
+};
+
+const collides = (player: Player, config: GameConfig, obstacles: Obstacle[]) => {
+  const hitbox = getPlayerHitbox(player, config);
+  return obstacles.some(obstacle => intersect(hitbox, getObstacleShape(obstacle)) !== null);
+};
+
+// Tells whether some sequence of flips gets a start past every obstacle on `track`, found by a
+// depth-first search over flip timings. Near-identical player states are merged and their outcome
+// shared between starts, so once one start finds a way through the others mostly join it.
+const createSearch = (track: Obstacle[][], config: GameConfig) => {
+  const outcomes = new Map<string, boolean>();
+  let nodes = 0;
+
+  const search = (t: number, player: Player): boolean => {
+    if (t >= track.length) return true;
+    // Running out counts as stuck, so a layout only passes once a way through it has been found
+    if (++nodes > NODE_BUDGET) return false;
+
+    // Trying "no flip" first finds the common easy path quickly
+    const choices = player.isFlipping ? [false] : [false, true];
+    return choices.some(flip => {
+      const next = updatePlayer(player, flip, config, t * TICK_DURATION);
+      if (collides(next, config, track[t])) return false;
+
+      const flipAge = next.isFlipping ? Math.round(t - next.flipStartTime * TICK_RATE) : -1;
+      const key = `${t}|${next.gravityFlipped}|${flipAge}|${Math.round(next.y)}|${Math.round(next.velocityY / 10)}`;
+      const known = outcomes.get(key);
+      if (known !== undefined) return known;
+
+      const outcome = search(t + 1, next);
+      outcomes.set(key, outcome);
+      return outcome;
+    });
+  };
+
+  return (start: Player) => !collides(start, config, track[0]) && search(1, start);
+};
+
+// The states in `starts` from which the obstacles in `probe` can be got through
+export const findSurvivors = (probe: PassabilityProbe, starts: Player[]): Player[] => {
+  const track = buildTrack(probe);
+  if (track.length === 0) return starts;
+  return starts.filter(createSearch(track, probe.config));
+};
+
+// Whether the obstacles in `probe` can be got through from every one of `starts`
+export const isPassable = (probe: PassabilityProbe, starts = getEntryStates(probe.config)): boolean => {
+  const track = buildTrack(probe);
+  if (track.length === 0) return true;
+  return starts.every(createSearch(track, probe.config));
+};
@@ -0,0 +1,149 @@
+import type { Vec } from "./collision";
+import type { Level } from "./level";
+
+// Spikes are triangles pointing away from the boundary they hang from
+export type ObstacleShape = "rect" | "spike";
+
+export interface Obstacle {
+  id: number;
+  shape: ObstacleShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  isTop: boolean;
+  // Set once the player has come within a whisker of it without touching
+  grazed?: boolean;
+  // Broken by a shield: no longer drawn or solid, but still scored once it scrolls past
+  shattered?: boolean;
+}
+
+export interface Particle {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  // Defaults to the standard cyan
+  color?: string;
+}
+
+export interface Collectible {
+  id: number;
+  // Centre of the pickup
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export type PowerUpKind = "shield" | "slowmo" | "magnet" | "double";
+
+export interface PowerUp {
+  id: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  velocityY: number;
+  onGround: boolean;
+  gravityFlipped: boolean;
+  isFlipping: boolean;
+  flipStartTime: number;
+}
+
+export interface GameConfig {
+  width: number;
+  height: number;
+  // Thickness of the floor and ceiling bands
+  boundary: number;
+  playerSize: number;
+  // Physics in pixels per second (squared for gravity)
+  gravity: number;
+  jumpForce: number;
+  baseSpeed: number;
+  maxSpeed: number;
+  // Fraction of the player's size trimmed off its hitbox, for a little forgiveness
+  hitboxShrink: number;
+}
+
+export type Difficulty = "easy" | "normal" | "hard";
+
+export type GameMode = "endless" | "daily" | "campaign";
+
+export type GameEvent =
+  | { type: "flip"; gravityFlipped: boolean }
+  | { type: "score"; score: number }
+  | { type: "crash"; death: Death }
+  // Survived a collision on a level with lives to spare; the obstacle shatters
+  | { type: "hit"; obstacle: Obstacle; hits: number }
+  // Made it past an obstacle after grazing it
+  | { type: "nearMiss"; obstacle: Obstacle }
+  | { type: "collect"; collected: number }
+  | { type: "powerUp"; kind: PowerUpKind }
+  // The shield took a hit in the player's place; the obstacle shatters
+  | { type: "shielded"; obstacle: Obstacle }
+  // Crossed the finish line of a level
+  | { type: "finish" };
+
+export interface Death {
+  obstacle: Obstacle;
+  // Where the player's hitbox met the obstacle
+  contact: Vec;
+  tick: number;
+}
+
+export interface GameInput {
+  // True while the flip control is held down
+  flip: boolean;
+}
+
+export interface GameState {
+  config: GameConfig;
+  player: Player;
+  obstacles: Obstacle[];
+  collectibles: Collectible[];
+  powerUps: PowerUp[];
+  // Seconds left on each power-up effect, zero when inactive
+  effects: Record<PowerUpKind, number>;
+  particles: Particle[];
+  gameSpeed: number;
+  // Distance at which the next obstacle pattern is due
+  nextSpawnDistance: number;
+  score: number;
+  // Score without multipliers; the difficulty ramp follows this so power-ups can't speed it up
+  baseScore: number;
+  distance: number;
+  seed: number;
+  // PRNG state for gameplay (obstacles) and for purely visual effects, kept apart so
+  // cosmetics can never change a run
+  rngState: number;
+  effectsRngState: number;
+  // Id of the cosmetic flip trail (see cosmetics.ts)
+  trail: string;
+  tick: number;
+  // Simulated seconds since the run started
+  time: number;
+  timeAlive: number;
+  nextId: number;
+  // Collectibles picked up and collisions survived so far
+  collected: number;
+  hits: number;
+  // Set by a crash or, on a level, by reaching the finish line
+  over: boolean;
+  death: Death | null;
+  // Authored course being played, with its obstacles sorted by position, or null for endless
+  level: Level | null;
+  // Indices of the next level obstacle and collectible to bring on screen
+  levelCursor: number;
+  collectibleCursor: number;
+  // Events emitted by the most recent step
+  events: GameEvent[];
+}
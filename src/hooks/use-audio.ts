@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { createAudioEngine } from "@/game/audio";
+import { useSettings } from "@/hooks/use-settings";
+
+// One engine for the whole app, as browsers cap how many audio contexts a page may open
+const engine = createAudioEngine();
+
+// The shared audio engine, kept in step with the volume settings
+export const useAudio = () => {
+  const { masterVolume, musicVolume, sfxVolume, muted } = useSettings();
+
+  useEffect(() => {
+    engine.setVolumes({ master: masterVolume, music: musicVolume, sfx: sfxVolume, muted });
+  }, [masterVolume, musicVolume, sfxVolume, muted]);
+
+  // Leaving the page shouldn't leave the soundtrack playing
+  useEffect(() => engine.stopMusic, []);
+
+  return engine;
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+import { createGamepadPoller, type GamepadAction } from "@/lib/gamepad";
+
+interface GamepadHandlers {
+  onPress: (action: GamepadAction) => void;
+  onRelease: (action: GamepadAction) => void;
+  onConnect?: (id: string) => void;
+  onDisconnect?: (id: string) => void;
+}
+
+// Polls controllers every frame while any are plugged in, and sleeps until the next one connects
+export const useGamepad = (handlers: GamepadHandlers) => {
+  // Read through a ref so the handlers can change without restarting the polling
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (typeof navigator.getGamepads !== 'function') return;
+
+    const poller = createGamepadPoller();
+    let frame = 0;
+
+    const tick = () => {
+      const { connected, disconnected, pressed, released, count } = poller.poll();
+      const { onPress, onRelease, onConnect, onDisconnect } = handlersRef.current;
+      connected.forEach(id => onConnect?.(id));
+      disconnected.forEach(id => onDisconnect?.(id));
+      released.forEach(onRelease);
+      pressed.forEach(onPress);
+      frame = count > 0 ? requestAnimationFrame(tick) : 0;
+    };
+
+    const start = () => {
+      if (!frame) frame = requestAnimationFrame(tick);
+    };
+
+    start();
+    window.addEventListener('gamepadconnected', start);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('gamepadconnected', start);
+    };
+  }, []);
+};
@@ -0,0 +1,40 @@
+import { createContext, useContext } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  defaultLeaderboardApi,
+  getPlayerId,
+  type LeaderboardApi,
+  type LeaderboardQuery,
+  type ScoreSubmission
+} from "@/lib/leaderboardApi";
+
+// Swap in another backend, e.g. an in-memory one, by wrapping the tree in a provider
+export const LeaderboardApiContext = createContext<LeaderboardApi>(defaultLeaderboardApi);
+
+const useLeaderboardApi = () => useContext(LeaderboardApiContext);
+
+export const useTopScores = (query: LeaderboardQuery, limit = 10) => {
+  const api = useLeaderboardApi();
+  return useQuery({
+    queryKey: ['leaderboard', 'top', query.mode, query.difficulty, query.period, limit],
+    queryFn: () => api.fetchTop(query, limit)
+  });
+};
+
+export const useScoresAroundMe = (query: LeaderboardQuery, range = 3) => {
+  const api = useLeaderboardApi();
+  const playerId = getPlayerId();
+  return useQuery({
+    queryKey: ['leaderboard', 'around', playerId, query.mode, query.difficulty, query.period, range],
+    queryFn: () => api.fetchAroundMe(playerId, query, range)
+  });
+};
+
+export const useSubmitScore = () => {
+  const api = useLeaderboardApi();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (submission: Omit<ScoreSubmission, 'playerId'>) => api.submitScore({ ...submission, playerId: getPlayerId() }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['leaderboard'] })
+  });
+};
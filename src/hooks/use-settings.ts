@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { loadSettings, subscribeToSettings } from "@/lib/settings";
+
+// The current settings, re-rendering whenever they change
+export const useSettings = () => useSyncExternalStore(subscribeToSettings, loadSettings);
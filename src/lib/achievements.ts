@@ -0,0 +1,31 @@
+import { createStats, type AchievementStats } from "@/game/achievements";
+
+export interface AchievementProgress {
+  stats: AchievementStats;
+  // When each achievement was unlocked, by id
+  unlocked: Record<string, number>;
+}
+
+const STORAGE_KEY = 'gravityRunnerAchievements';
+
+export const loadAchievements = (): AchievementProgress => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    // Counters added since the progress was saved start from zero
+    return stored
+      ? { stats: { ...createStats(), ...stored.stats }, unlocked: stored.unlocked ?? {} }
+      : { stats: createStats(), unlocked: {} };
+  } catch {
+    return { stats: createStats(), unlocked: {} };
+  }
+};
+
+// Replaces the saved stats and marks `ids` as unlocked now, keeping earlier unlock dates
+export const saveAchievements = (stats: AchievementStats, ids: string[] = []) => {
+  const progress = loadAchievements();
+  const now = Date.now();
+  ids.forEach(id => {
+    progress.unlocked[id] ??= now;
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ stats, unlocked: progress.unlocked }));
+};
@@ -0,0 +1,43 @@
+import { CAMPAIGN, getCampaignLevel, getStars, type LevelStars } from "@/game/campaign";
+import type { Replay } from "@/game/replay";
+
+export interface LevelProgress {
+  // Stars are kept once earned, even if they came from different runs
+  stars: LevelStars;
+  bestScore: number;
+}
+
+const STORAGE_KEY = 'gravityRunnerCampaign';
+
+export const loadCampaignProgress = (): Record<string, LevelProgress> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Folds a finished run into the saved progress for its level
+export const recordLevelRun = (replay: Replay) => {
+  const entry = replay.levelId ? getCampaignLevel(replay.levelId) : undefined;
+  if (!entry) return;
+
+  const progress = loadCampaignProgress();
+  const previous = progress[entry.id];
+  const stars = getStars(replay, entry.level);
+  progress[entry.id] = {
+    stars: {
+      completed: stars.completed || !!previous?.stars.completed,
+      noHit: stars.noHit || !!previous?.stars.noHit,
+      allCollected: stars.allCollected || !!previous?.stars.allCollected
+    },
+    bestScore: Math.max(replay.score, previous?.bestScore ?? 0)
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+};
+
+// The first level is always open; every other one opens once the one before it is cleared
+export const isLevelUnlocked = (id: string, progress = loadCampaignProgress()) => {
+  const index = CAMPAIGN.findIndex(entry => entry.id === id);
+  return index === 0 || (index > 0 && !!progress[CAMPAIGN[index - 1].id]?.stars.completed);
+};
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// Keyboard bindings for the game's actions, by KeyboardEvent.code. Every action has a primary and
+// an optional secondary key, and no key may drive two actions.
+
+export type ControlAction = 'flip' | 'pause' | 'restart' | 'menuUp' | 'menuDown' | 'menuSelect';
+
+
+export const CONTROL_ACTIONS: { action: ControlAction; label: string }[] = [
+  { action: 'flip', label: 'Flip gravity / start' },
+  { action: 'pause', label: 'Pause / resume' },
+  { action: 'restart', label: 'Restart' },
+  { action: 'menuUp', label: 'Menu up' },
+  { action: 'menuDown', label: 'Menu down' },
+  { action: 'menuSelect', label: 'Menu select' }
+];
+
+// Primary key first, then the secondary if there is one
+const binding = (fallback: string[]) => z.array(z.string()).min(1).max(2).catch(fallback);
+
+// Stored bindings, where any action that doesn't parse gets its default keys back
+export const keyBindingsSchema = z.object({
+  flip: binding(['Space']),
+  pause: binding(['Escape', 'KeyP']),
+  restart: binding(['KeyR']),
+  menuUp: binding(['ArrowUp', 'KeyW']),
+  menuDown: binding(['ArrowDown', 'KeyS']),
+  menuSelect: binding(['Enter'])
+});
+
+export type KeyBindings = z.infer<typeof keyBindingsSchema>;
+
+export const DEFAULT_BINDINGS = keyBindingsSchema.parse({});
+
+// The action bound to `code`, if any
+export const getAction = (bindings: KeyBindings, code: string) =>
+  CONTROL_ACTIONS.find(({ action }) => bindings[action].includes(code))?.action;
+
+// The action, other than `action` itself, that already uses `code`
+export const findConflict = (bindings: KeyBindings, action: ControlAction, code: string) => {
+  const bound = getAction(bindings, code);
+  return bound !== action ? bound : undefined;
+};
+
+// Puts `code` in one of the action's two slots, or clears the secondary slot when `code` is null
+export const bindKey = (bindings: KeyBindings, action: ControlAction, slot: 0 | 1, code: string | null): KeyBindings => {
+  const keys = [...bindings[action]];
+  if (code === null) {
+    keys.splice(slot, 1);
+  } else {
+    // Moving a key between an action's own slots leaves just the one copy
+    const existing = keys.indexOf(code);
+    if (existing !== -1 && existing !== slot) keys.splice(existing, 1);
+    keys[Math.min(slot, keys.length)] = code;
+  }
+  return { ...bindings, [action]: keys.filter(Boolean).slice(0, 2) };
+};
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space',
+  Escape: 'Esc',
+  Enter: 'Enter',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→'
+};
+
+// Short label for a key code, e.g. "KeyP" → "P"
+export const describeKey = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^(Key|Digit)/, '').replace(/^Numpad/, 'Num ');
+
+export const describeBinding = (keys: string[]) => keys.map(describeKey).join(' or ');
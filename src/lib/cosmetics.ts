@@ -0,0 +1,57 @@
+import { DEFAULT_SKIN, DEFAULT_TRAIL, SKINS, TRAILS } from "@/game/cosmetics";
+import { spendOrbs } from "./wallet";
+
+export type CosmeticKind = 'skin' | 'trail';
+
+export interface CosmeticState {
+  // Ids of everything bought; the free defaults are always owned
+  owned: string[];
+  equipped: Record<CosmeticKind, string>;
+}
+
+const STORAGE_KEY = 'gravityRunnerCosmetics';
+
+const CATALOG = { skin: SKINS, trail: TRAILS };
+
+const DEFAULT_STATE: CosmeticState = {
+  owned: [DEFAULT_SKIN.id, DEFAULT_TRAIL.id],
+  equipped: { skin: DEFAULT_SKIN.id, trail: DEFAULT_TRAIL.id }
+};
+
+export const loadCosmetics = (): CosmeticState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored ? { ...DEFAULT_STATE, ...stored } : DEFAULT_STATE;
+  } catch {
+    return DEFAULT_STATE;
+  }
+};
+
+const storeCosmetics = (state: CosmeticState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+export const isOwned = (state: CosmeticState, id: string) =>
+  state.owned.includes(id) || id === DEFAULT_SKIN.id || id === DEFAULT_TRAIL.id;
+
+// Buys an item with orbs from the wallet, returning the new state or null if it couldn't be afforded
+export const purchaseCosmetic = (kind: CosmeticKind, id: string): CosmeticState | null => {
+  const item = CATALOG[kind].find(entry => entry.id === id);
+  const state = loadCosmetics();
+  if (!item) return null;
+  if (isOwned(state, id)) return state;
+  if (!spendOrbs(item.price)) return null;
+
+  const next = { ...state, owned: [...state.owned, id] };
+  storeCosmetics(next);
+  return next;
+};
+
+export const equipCosmetic = (kind: CosmeticKind, id: string): CosmeticState => {
+  const state = loadCosmetics();
+  if (!isOwned(state, id)) return state;
+
+  const next = { ...state, equipped: { ...state.equipped, [kind]: id } };
+  storeCosmetics(next);
+  return next;
+};
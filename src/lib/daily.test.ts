@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Replay } from '@/game/replay';
+import {
+  getDailyKey,
+  getDailySeed,
+  loadDailyResults,
+  parseDailyKey,
+  recordPracticeRun,
+  recordScoredAttempt,
+  startScoredAttempt
+} from './daily';
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  return () => vi.unstubAllGlobals();
+});
+
+// Only the result fields matter to the daily record
+const run = (score: number) => ({ score, distance: score * 2, timeAlive: 30 }) as Replay;
+
+describe('daily seeds', () => {
+  it('key the day by the local calendar date', () => {
+    expect(getDailyKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(getDailyKey(new Date(2026, 0, 6, 0, 0))).toBe('2026-01-06');
+    expect(getDailyKey(parseDailyKey('2026-12-31'))).toBe('2026-12-31');
+  });
+
+  it('give everyone the same seed on a given day and a new one the next', () => {
+    const seed = getDailySeed('2026-06-15');
+    expect(getDailySeed('2026-06-15')).toBe(seed);
+    expect(getDailySeed('2026-06-16')).not.toBe(seed);
+    expect(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32).toBe(true);
+  });
+});
+
+describe('scored attempt', () => {
+  const key = '2026-06-15';
+
+  it('is claimed as soon as the run starts', () => {
+    expect(loadDailyResults()[key]).toBeUndefined();
+    startScoredAttempt(key);
+    expect(loadDailyResults()[key]).toMatchObject({ score: 0, practiceRuns: 0 });
+  });
+
+  it("can't be claimed again once used", () => {
+    startScoredAttempt(key);
+    recordScoredAttempt(key, run(120), 'replay-1');
+    startScoredAttempt(key);
+    expect(loadDailyResults()[key]).toMatchObject({ score: 120, distance: 240, replayId: 'replay-1' });
+  });
+
+  it('is left alone by practice runs afterwards', () => {
+    startScoredAttempt(key);
+    recordScoredAttempt(key, run(120), 'replay-1');
+    recordPracticeRun(key, run(300));
+    recordPracticeRun(key, run(80));
+    expect(loadDailyResults()[key]).toMatchObject({ score: 120, practiceRuns: 2, practiceBest: 300 });
+  });
+
+  it('belongs to its own day', () => {
+    startScoredAttempt(key);
+    expect(loadDailyResults()['2026-06-16']).toBeUndefined();
+    recordPracticeRun('2026-06-16', run(50));
+    expect(loadDailyResults()['2026-06-16']).toBeUndefined();
+  });
+});
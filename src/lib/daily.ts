@@ -0,0 +1,71 @@
+import { hashSeed } from "@/game/rng";
+import type { Replay } from "@/game/replay";
+
+export interface DailyResult {
+  date: string;
+  // The single scored attempt; stays at zero if it was abandoned mid-run
+  score: number;
+  distance: number;
+  timeAlive: number;
+  replayId?: string;
+  practiceRuns: number;
+  practiceBest: number;
+}
+
+const STORAGE_KEY = 'gravityRunnerDaily';
+
+// Local calendar date as YYYY-MM-DD, so the challenge rolls over at the player's midnight
+export const getDailyKey = (date = new Date()) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDailyKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getDailySeed = (key: string) => hashSeed(`daily:${key}`);
+
+export const loadDailyResults = (): Record<string, DailyResult> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const storeDailyResult = (result: DailyResult) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadDailyResults(), [result.date]: result }));
+};
+
+// Claims the day's scored attempt as soon as it starts, so leaving mid-run doesn't grant a retry
+export const startScoredAttempt = (key: string) => {
+  if (loadDailyResults()[key]) return;
+  storeDailyResult({ date: key, score: 0, distance: 0, timeAlive: 0, practiceRuns: 0, practiceBest: 0 });
+};
+
+export const recordScoredAttempt = (key: string, replay: Replay, replayId: string) => {
+  const result = loadDailyResults()[key];
+  storeDailyResult({
+    ...result,
+    date: key,
+    score: replay.score,
+    distance: replay.distance,
+    timeAlive: replay.timeAlive,
+    replayId,
+    practiceRuns: result?.practiceRuns ?? 0,
+    practiceBest: result?.practiceBest ?? 0
+  });
+};
+
+export const recordPracticeRun = (key: string, replay: Replay) => {
+  const result = loadDailyResults()[key];
+  if (!result) return;
+  storeDailyResult({
+    ...result,
+    practiceRuns: result.practiceRuns + 1,
+    practiceBest: Math.max(result.practiceBest, replay.score)
+  });
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createGamepadPoller, getMapping, readActions, STANDARD_MAPPING } from './gamepad';
+
+interface FakePad {
+  index?: number;
+  id?: string;
+  mapping?: GamepadMappingType;
+  pressed?: number[];
+  axes?: number[];
+}
+
+const pad = ({ index = 0, id = 'Xbox Controller', mapping = 'standard', pressed = [], axes = [0, 0] }: FakePad = {}) =>
+  ({
+    index,
+    id,
+    mapping,
+    connected: true,
+    buttons: Array.from({ length: 17 }, (_, button) => ({ pressed: pressed.includes(button), touched: false, value: 0 })),
+    axes,
+    timestamp: 0
+  }) as unknown as Gamepad;
+
+// A poller over a fake set of plugged-in pads that the test swaps out between polls
+const fakePoller = (initial: Gamepad[] = []) => {
+  let gamepads = initial;
+  const poller = createGamepadPoller(() => gamepads);
+  return {
+    poll: (next: Gamepad[]) => {
+      gamepads = next;
+      return poller.poll();
+    }
+  };
+};
+
+describe('createGamepadPoller', () => {
+  it('reports a button once when it goes down and once when it comes up', () => {
+    const { poll } = fakePoller([pad()]);
+    expect(poll([pad({ pressed: [0] })])).toMatchObject({ pressed: ['flip'], released: [] });
+    expect(poll([pad({ pressed: [0] })])).toMatchObject({ pressed: [], released: [] });
+    expect(poll([pad()])).toMatchObject({ pressed: [], released: ['flip'] });
+  });
+
+  it("doesn't report buttons already held when it was created", () => {
+    const { poll } = fakePoller([pad({ pressed: [9] })]);
+    expect(poll([pad({ pressed: [9] })])).toMatchObject({ connected: [], pressed: [], released: [] });
+  });
+
+  it('reports controllers being plugged in and out', () => {
+    const { poll } = fakePoller();
+    expect(poll([pad({ pressed: [0] })])).toEqual({
+      connected: ['Xbox Controller'],
+      disconnected: [],
+      pressed: ['flip'],
+      released: [],
+      count: 1
+    });
+    // Unplugging lets go of whatever it was holding
+    expect(poll([])).toEqual({ connected: [], disconnected: ['Xbox Controller'], pressed: [], released: ['flip'], count: 0 });
+  });
+
+  it('treats a different controller in the same slot as a swap', () => {
+    const { poll } = fakePoller([pad()]);
+    expect(poll([pad({ id: 'Wireless Controller' })])).toMatchObject({
+      connected: ['Wireless Controller'],
+      disconnected: ['Xbox Controller'],
+      count: 1
+    });
+  });
+});
+
+describe('getMapping', () => {
+  const snesPad = (axes = [0, 0]) => pad({ id: 'USB Gamepad (Vendor: 081f Product: e401)', mapping: '', axes });
+
+  it('uses the standard layout for pads the browser recognises or we have never seen', () => {
+    expect(getMapping(pad())).toBe(STANDARD_MAPPING);
+    expect(getMapping(pad({ id: '1234-abcd-Mystery Pad', mapping: '' }))).toBe(STANDARD_MAPPING);
+  });
+
+  it('reads the d-pad off an axis on pads that report it that way', () => {
+    expect(getMapping(snesPad()).dpadAxis).toBe(1);
+    expect([...readActions(snesPad([0, -1]))]).toEqual(['menuUp']);
+    expect([...readActions(snesPad([0, 1]))]).toEqual(['menuDown']);
+    expect([...readActions(snesPad([0, 0.2]))]).toEqual([]);
+  });
+
+  it('reports axis d-pad presses through the poller', () => {
+    const { poll } = fakePoller([snesPad()]);
+    expect(poll([snesPad([0, 1])])).toMatchObject({ pressed: ['menuDown'] });
+    expect(poll([snesPad([0, -1])])).toMatchObject({ pressed: ['menuUp'], released: ['menuDown'] });
+  });
+});
@@ -0,0 +1,113 @@
+import type { ControlAction } from "./controls";
+
+// Controller input, polled since the Gamepad API has no button events. Each poll compares the
+// buttons held now with the last poll to report presses and releases, and notices controllers
+// being plugged in or out along the way.
+
+export type GamepadAction = Extract<ControlAction, 'flip' | 'pause' | 'menuUp' | 'menuDown'>;
+
+export interface GamepadMapping {
+  buttons: Record<GamepadAction, number[]>;
+  // Vertical axis that some pads report their d-pad on instead of buttons, negative being up
+  dpadAxis?: number;
+}
+
+// The browser's "standard" layout: face buttons 0–3, Start 9, d-pad 12–15
+export const STANDARD_MAPPING: GamepadMapping = {
+  buttons: { flip: [0, 1, 2, 3], pause: [9], menuUp: [12], menuDown: [13] }
+};
+
+// Pads the browser doesn't recognise report their own button order. Matched on the id, which
+// includes the USB vendor and product ids, e.g. "081f-e401-USB Gamepad" or
+// "USB Gamepad (Vendor: 081f Product: e401)".
+const DEVICE_MAPPINGS: { match: RegExp; mapping: GamepadMapping }[] = [
+  // Cheap SNES-style USB pads
+  {
+    match: /081f\D+e401/i,
+    mapping: { buttons: { flip: [0, 1, 2, 3], pause: [9], menuUp: [], menuDown: [] }, dpadAxis: 1 }
+  },
+  // DragonRise-based arcade sticks and PlayStation-style pads
+  {
+    match: /0079\D+0006/i,
+    mapping: { buttons: { flip: [0, 1, 2, 3], pause: [9], menuUp: [], menuDown: [] }, dpadAxis: 1 }
+  }
+];
+
+export const getMapping = (gamepad: Gamepad) =>
+  gamepad.mapping === 'standard'
+    ? STANDARD_MAPPING
+    : DEVICE_MAPPINGS.find(({ match }) => match.test(gamepad.id))?.mapping ?? STANDARD_MAPPING;
+
+const AXIS_THRESHOLD = 0.5;
+
+// The actions whose buttons are held on `gamepad` right now
+export const readActions = (gamepad: Gamepad, mapping = getMapping(gamepad)) => {
+  const held = new Set<GamepadAction>();
+  for (const [action, buttons] of Object.entries(mapping.buttons) as [GamepadAction, number[]][]) {
+    if (buttons.some(index => gamepad.buttons[index]?.pressed)) held.add(action);
+  }
+  if (mapping.dpadAxis !== undefined) {
+    const axis = gamepad.axes[mapping.dpadAxis] ?? 0;
+    if (axis < -AXIS_THRESHOLD) held.add('menuUp');
+    if (axis > AXIS_THRESHOLD) held.add('menuDown');
+  }
+  return held;
+};
+
+// Drops the "(Vendor: … Product: …)" and vendor-product prefix the browser adds to the name
+export const describeGamepad = (id: string) =>
+  id.replace(/\s*\(.*\)\s*$/, '').replace(/^[0-9a-f]{1,4}-[0-9a-f]{1,4}-/i, '').trim() || 'Controller';
+
+export interface GamepadPoll {
+  connected: string[];
+  disconnected: string[];
+  pressed: GamepadAction[];
+  released: GamepadAction[];
+  // How many controllers are plugged in after this poll
+  count: number;
+}
+
+export interface GamepadPoller {
+  poll: () => GamepadPoll;
+}
+
+// Controllers already plugged in when the poller is created count as known, with whatever they
+// are holding treated as already pressed, so nothing fires until something changes.
+// `getGamepads` can be swapped out to drive the poller without real hardware.
+export const createGamepadPoller = (
+  getGamepads: () => (Gamepad | null)[] = () => navigator.getGamepads()
+): GamepadPoller => {
+  const read = () => getGamepads().filter((gamepad): gamepad is Gamepad => !!gamepad?.connected);
+
+  // Keyed by the slot the browser gives each controller
+  const known = new Map<number, { id: string; held: Set<GamepadAction> }>(
+    read().map(gamepad => [gamepad.index, { id: gamepad.id, held: readActions(gamepad) }])
+  );
+
+  const poll = (): GamepadPoll => {
+    const result: GamepadPoll = { connected: [], disconnected: [], pressed: [], released: [], count: 0 };
+    const gamepads = read();
+
+    for (const [index, { id, held }] of known) {
+      if (gamepads.some(gamepad => gamepad.index === index && gamepad.id === id)) continue;
+      known.delete(index);
+      result.disconnected.push(id);
+      result.released.push(...held);
+    }
+
+    for (const gamepad of gamepads) {
+      const previous = known.get(gamepad.index);
+      if (!previous) result.connected.push(gamepad.id);
+      const before = previous?.held ?? new Set<GamepadAction>();
+      const held = readActions(gamepad);
+      held.forEach(action => before.has(action) || result.pressed.push(action));
+      before.forEach(action => held.has(action) || result.released.push(action));
+      known.set(gamepad.index, { id: gamepad.id, held });
+    }
+
+    result.count = known.size;
+    return result;
+  };
+
+  return { poll };
+};
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Difficulty, GameMode } from '@/game/types';
+import {
+  addLeaderboardEntry,
+  getHighScore,
+  LEADERBOARD_SIZE,
+  loadBoard,
+  loadLeaderboard,
+  qualifiesForLeaderboard,
+  recordBestScore
+} from './leaderboard';
+
+let storage: Map<string, string>;
+
+beforeEach(() => {
+  storage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  return () => vi.unstubAllGlobals();
+});
+
+const add = (score: number, mode: GameMode = 'endless', difficulty: Difficulty = 'normal', practice?: boolean) =>
+  addLeaderboardEntry({ name: 'Tester', score, distance: score, timeAlive: 10, date: 1000, mode, difficulty, practice });
+
+describe('loadLeaderboard', () => {
+  it('carries an old high score over once, as an unnamed endless entry', () => {
+    storage.set('gravityRunnerHighScore', '1234');
+    expect(loadLeaderboard()).toMatchObject([{ name: 'Player', score: 1234, mode: 'endless', difficulty: 'normal' }]);
+    expect(storage.has('gravityRunnerHighScore')).toBe(false);
+    expect(loadLeaderboard()).toHaveLength(1);
+    expect(getHighScore('endless')).toBe(1234);
+  });
+
+  it('puts entries from before difficulties were recorded on normal', () => {
+    storage.set('gravityRunnerLeaderboard', JSON.stringify([{ id: 'a', name: 'Old', score: 50, distance: 0, timeAlive: 0, date: 0, mode: 'endless' }]));
+    expect(loadBoard('endless', 'normal')).toMatchObject([{ name: 'Old', difficulty: 'normal' }]);
+  });
+});
+
+describe('addLeaderboardEntry', () => {
+  it('ranks each board and difficulty on its own', () => {
+    expect(add(500)).toBe(1);
+    expect(add(100, 'endless', 'hard')).toBe(1);
+    expect(add(300, 'daily')).toBe(1);
+    expect(add(900, 'daily', 'normal', true)).toBe(1);
+    expect(add(400)).toBe(2);
+
+    expect(loadBoard('endless', 'normal').map(entry => entry.score)).toEqual([500, 400]);
+    expect(loadBoard('endless', 'hard').map(entry => entry.score)).toEqual([100]);
+    // Practice runs stay off the daily board
+    expect(loadBoard('daily', 'normal').map(entry => entry.score)).toEqual([300]);
+    expect(loadBoard('practice', 'normal').map(entry => entry.score)).toEqual([900]);
+  });
+
+  it(`keeps the best ${LEADERBOARD_SIZE} of each board and difficulty`, () => {
+    for (let i = 1; i <= LEADERBOARD_SIZE; i++) {
+      add(i * 10);
+      add(i, 'endless', 'hard');
+    }
+
+    expect(qualifiesForLeaderboard(5, 'endless', 'normal')).toBe(false);
+    expect(add(5)).toBeNull();
+    expect(qualifiesForLeaderboard(15, 'endless', 'normal')).toBe(true);
+    expect(add(15)).toBe(LEADERBOARD_SIZE);
+
+    const board = loadBoard('endless', 'normal');
+    expect(board).toHaveLength(LEADERBOARD_SIZE);
+    expect(board[board.length - 1].score).toBe(15);
+    // Trimming one board leaves the others alone
+    expect(loadBoard('endless', 'hard')).toHaveLength(LEADERBOARD_SIZE);
+  });
+
+  it('gives ties to whoever got there first', () => {
+    for (let i = 0; i < LEADERBOARD_SIZE; i++) add(100);
+    expect(add(100)).toBeNull();
+  });
+});
+
+describe('recordBestScore', () => {
+  it('keeps the best score per mode whether or not the run made the board', () => {
+    expect(recordBestScore('endless', 200)).toBe(true);
+    expect(recordBestScore('endless', 150)).toBe(false);
+    expect(recordBestScore('daily', 150)).toBe(true);
+    expect(getHighScore('endless')).toBe(200);
+    expect(getHighScore('daily')).toBe(150);
+  });
+
+  it('starts from the best non-practice entries on the board', () => {
+    add(300, 'daily');
+    add(800, 'daily', 'normal', true);
+    expect(getHighScore('daily')).toBe(300);
+  });
+});
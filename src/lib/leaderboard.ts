@@ -0,0 +1,127 @@
+import type { Difficulty, GameMode } from "@/game/types";
+
+export interface LeaderboardEntry {
+  id: string;
+  name: string;
+  score: number;
+  distance: number;
+  timeAlive: number;
+  date: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  // A daily run after the day's scored attempt, which never ranks on the daily board
+  practice?: boolean;
+}
+
+// Entries are ranked against others on the same board and difficulty only
+export type LeaderboardBoard = GameMode | 'practice';
+
+export const getBoard = (entry: Pick<LeaderboardEntry, 'mode' | 'practice'>): LeaderboardBoard =>
+  entry.practice ? 'practice' : entry.mode;
+
+const getRanking = (entry: LeaderboardEntry) => `${getBoard(entry)}:${entry.difficulty}`;
+
+const STORAGE_KEY = 'gravityRunnerLeaderboard';
+// The single high score kept before there was a leaderboard
+const LEGACY_HIGH_SCORE_KEY = 'gravityRunnerHighScore';
+// Remembered so the next name prompt is already filled in
+const NAME_KEY = 'gravityRunnerPlayerName';
+// Best score per mode, kept apart from the board so skipping the name prompt, or being pushed
+// off the bottom of the board, never loses it
+const BEST_KEY = 'gravityRunnerBestScores';
+
+// Entries kept per board and difficulty
+export const LEADERBOARD_SIZE = 50;
+
+const storeLeaderboard = (entries: LeaderboardEntry[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+};
+
+const readLeaderboard = (): LeaderboardEntry[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    // Entries from before difficulties were recorded were almost all on the default
+    return Array.isArray(entries) ? entries.map(entry => ({ difficulty: 'normal', ...entry })) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Best first. An old single high score is carried over as an unnamed entry the first time.
+export const loadLeaderboard = (): LeaderboardEntry[] => {
+  const legacy = parseInt(localStorage.getItem(LEGACY_HIGH_SCORE_KEY) || '0') || 0;
+  if (legacy > 0) {
+    localStorage.removeItem(LEGACY_HIGH_SCORE_KEY);
+    const entry: LeaderboardEntry = {
+      id: 'legacy',
+      name: 'Player',
+      score: legacy,
+      distance: 0,
+      timeAlive: 0,
+      date: Date.now(),
+      mode: 'endless',
+      difficulty: 'normal'
+    };
+    storeLeaderboard([...readLeaderboard(), entry].sort((a, b) => b.score - a.score));
+  }
+  return readLeaderboard();
+};
+
+type BestScores = Partial<Record<GameMode, number>>;
+
+// The first time round the bests are worked out from the board
+const loadBestScores = (): BestScores => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BEST_KEY) || 'null');
+    if (stored && typeof stored === 'object') return stored;
+  } catch {
+    // Rebuilt below
+  }
+  const bests: BestScores = {};
+  loadLeaderboard().filter(entry => !entry.practice).forEach(entry => {
+    bests[entry.mode] = Math.max(bests[entry.mode] ?? 0, entry.score);
+  });
+  localStorage.setItem(BEST_KEY, JSON.stringify(bests));
+  return bests;
+};
+
+export const getHighScore = (mode: GameMode) => loadBestScores()[mode] ?? 0;
+
+// Records a finished run's score, returning true when it is a new best for its mode
+export const recordBestScore = (mode: GameMode, score: number) => {
+  const bests = loadBestScores();
+  if (score <= (bests[mode] ?? 0)) return false;
+  localStorage.setItem(BEST_KEY, JSON.stringify({ ...bests, [mode]: score }));
+  return true;
+};
+
+// Best first
+export const loadBoard = (board: LeaderboardBoard, difficulty: Difficulty) =>
+  loadLeaderboard().filter(entry => getBoard(entry) === board && entry.difficulty === difficulty);
+
+// Whether a score is good enough to make its board
+export const qualifiesForLeaderboard = (score: number, board: LeaderboardBoard, difficulty: Difficulty) => {
+  const entries = loadBoard(board, difficulty);
+  return score > 0 && (entries.length < LEADERBOARD_SIZE || score > entries[entries.length - 1].score);
+};
+
+// Adds an entry and returns its 1-based rank on its board, or null if it didn't make the cut
+export const addLeaderboardEntry = (entry: Omit<LeaderboardEntry, 'id'>) => {
+  const added = { ...entry, id: `${entry.date.toString(36)}-${Math.random().toString(36).slice(2, 6)}` };
+  const counts = new Map<string, number>();
+  // Ties go to whoever got there first
+  const entries = [...loadLeaderboard(), added]
+    .sort((a, b) => b.score - a.score)
+    .filter(kept => {
+      const count = counts.get(getRanking(kept)) ?? 0;
+      counts.set(getRanking(kept), count + 1);
+      return count < LEADERBOARD_SIZE;
+    });
+  storeLeaderboard(entries);
+  localStorage.setItem(NAME_KEY, entry.name);
+
+  const rank = entries.filter(kept => getRanking(kept) === getRanking(added)).indexOf(added);
+  return rank === -1 ? null : rank + 1;
+};
+
+export const loadPlayerName = () => localStorage.getItem(NAME_KEY) || '';
@@ -0,0 +1,125 @@
+import type { Replay } from "@/game/replay";
+import type { Difficulty, GameMode } from "@/game/types";
+
+// Client side of the online leaderboard. The REST contract is:
+//   POST /scores                      ScoreSubmission -> SubmitResult
+//   GET  /scores?mode&difficulty&period&limit    -> { entries: OnlineEntry[] }
+//   GET  /scores/around/:playerId?mode&difficulty&period&range -> { entries: OnlineEntry[] }
+// `server/` holds a stand-in implementation for working offline. Submissions are only accepted
+// once the server has re-simulated the replay; failures come back with a RejectionReason.
+
+export type LeaderboardPeriod = 'day' | 'week' | 'all';
+
+// Each difficulty has boards of its own, since easier hitboxes make for higher scores
+export interface LeaderboardQuery {
+  mode: GameMode;
+  difficulty: Difficulty;
+  period: LeaderboardPeriod;
+}
+
+export interface ScoreSubmission {
+  playerId: string;
+  name: string;
+  mode: GameMode;
+  difficulty: Difficulty;
+  score: number;
+  distance: number;
+  timeAlive: number;
+  // A daily run after the day's scored attempt; kept off the daily board
+  practice?: boolean;
+  // The whole run, so the server can check the score was really earned
+  replay: Replay;
+}
+
+export interface OnlineEntry {
+  id: string;
+  playerId: string;
+  name: string;
+  mode: GameMode;
+  difficulty: Difficulty;
+  score: number;
+  distance: number;
+  timeAlive: number;
+  submittedAt: number;
+  rank: number;
+}
+
+export interface SubmitResult {
+  id: string;
+  // Where the player's best now ranks on the all-time board for the run's mode and difficulty
+  rank: number;
+}
+
+export type RejectionReason =
+  | 'malformed'
+  // Recorded with a different ENGINE_VERSION, so it can't be replayed faithfully
+  | 'version'
+  // The submission and its replay disagree about the mode, difficulty or level
+  | 'mode'
+  // A daily run that isn't on the seed of the day it was submitted
+  | 'seed'
+  | 'inputs'
+  | 'tooLong'
+  // The inputs don't lead to the run ending where the replay says it does
+  | 'unfinished'
+  | 'score'
+  | 'distance'
+  | 'time'
+  // The orbs, hits or level completion the replay claims aren't what the simulation gives
+  | 'result';
+
+export interface LeaderboardApi {
+  submitScore: (submission: ScoreSubmission) => Promise<SubmitResult>;
+  fetchTop: (query: LeaderboardQuery, limit?: number) => Promise<OnlineEntry[]>;
+  // Entries either side of the player's best
+  fetchAroundMe: (playerId: string, query: LeaderboardQuery, range?: number) => Promise<OnlineEntry[]>;
+}
+
+export class LeaderboardApiError extends Error {
+  constructor(message: string, readonly status: number, readonly reason?: RejectionReason) {
+    super(message);
+    this.name = 'LeaderboardApiError';
+  }
+}
+
+const PLAYER_ID_KEY = 'gravityRunnerPlayerId';
+
+// Anonymous id that ties this device's submissions together
+export const getPlayerId = () => {
+  let id = localStorage.getItem(PLAYER_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, id);
+  }
+  return id;
+};
+
+export const createHttpLeaderboardApi = (baseUrl: string): LeaderboardApi => {
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new LeaderboardApiError(body.error || `Request failed with ${response.status}`, response.status, body.reason);
+    }
+    return body as T;
+  };
+
+  const params = (values: Record<string, string | number>) =>
+    new URLSearchParams(Object.entries(values).map(([key, value]) => [key, String(value)])).toString();
+
+  return {
+    submitScore: submission => request<SubmitResult>('/scores', { method: 'POST', body: JSON.stringify(submission) }),
+    fetchTop: async ({ mode, difficulty, period }, limit = 10) =>
+      (await request<{ entries: OnlineEntry[] }>(`/scores?${params({ mode, difficulty, period, limit })}`)).entries,
+    fetchAroundMe: async (playerId, { mode, difficulty, period }, range = 3) =>
+      (await request<{ entries: OnlineEntry[] }>(
+        `/scores/around/${encodeURIComponent(playerId)}?${params({ mode, difficulty, period, range })}`
+      )).entries
+  };
+};
+
+// Vite proxies /api to the stand-in server in development
+export const defaultLeaderboardApi = createHttpLeaderboardApi(import.meta.env.VITE_LEADERBOARD_URL ?? '/api');
@@ -0,0 +1,17 @@
+import { levelSchema, type Level } from "@/game/level";
+
+const DRAFT_KEY = 'gravityRunnerEditorLevel';
+
+// The level open in the editor, or null if there is none or it no longer parses
+export const loadDraftLevel = (): Level | null => {
+  try {
+    const result = levelSchema.safeParse(JSON.parse(localStorage.getItem(DRAFT_KEY) || 'null'));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveDraftLevel = (level: Level) => {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(level));
+};
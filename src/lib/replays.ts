@@ -0,0 +1,48 @@
+import type { Replay } from "@/game/replay";
+
+export interface StoredReplay extends Replay {
+  id: string;
+}
+
+const STORAGE_KEY = 'gravityRunnerReplays';
+const BEST_KEY = 'gravityRunnerBestReplay';
+// Oldest replays are dropped past this, to stay well inside the localStorage quota
+const MAX_REPLAYS = 50;
+
+export const loadReplays = (): StoredReplay[] => {
+  try {
+    const replays = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(replays) ? replays : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeReplays = (replays: StoredReplay[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(replays));
+};
+
+export const getReplay = (id: string) => loadReplays().find(replay => replay.id === id);
+
+export const saveReplay = (replay: Replay): StoredReplay => {
+  const stored = { ...replay, id: `${replay.recordedAt.toString(36)}-${replay.seed.toString(36)}` };
+  storeReplays([stored, ...loadReplays()].slice(0, MAX_REPLAYS));
+  return stored;
+};
+
+export const deleteReplay = (id: string) => {
+  storeReplays(loadReplays().filter(replay => replay.id !== id));
+};
+
+// The high score run is kept apart from the rolling list so it is never evicted
+export const loadBestReplay = (): Replay | null => {
+  try {
+    return JSON.parse(localStorage.getItem(BEST_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const saveBestReplay = (replay: Replay) => {
+  localStorage.setItem(BEST_KEY, JSON.stringify(replay));
+};
@@ -0,0 +1,70 @@
+import type { Difficulty, GameMode } from "@/game/types";
+
+// Every finished run, kept for the stats dashboard
+export interface RunRecord {
+  mode: GameMode;
+  difficulty: Difficulty;
+  score: number;
+  distance: number;
+  timeAlive: number;
+  flips: number;
+  // What the player ran into, or null if they crossed a level's finish line
+  death: string | null;
+  // Highest difficulty level the run got to
+  levelReached: number;
+  // When the page was loaded, so runs from one sitting group together
+  session: number;
+  finishedAt: number;
+}
+
+export interface SessionSummary {
+  session: number;
+  runs: number;
+  averageTimeAlive: number;
+  bestScore: number;
+}
+
+const STORAGE_KEY = 'gravityRunnerRuns';
+// Records are small, but the oldest are still dropped past this
+const MAX_RUNS = 1000;
+
+const SESSION = Date.now();
+
+export const loadRuns = (): RunRecord[] => {
+  try {
+    const runs = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(runs) ? runs : [];
+  } catch {
+    return [];
+  }
+};
+
+// Appends a run to the history, oldest first
+export const saveRun = (run: Omit<RunRecord, 'session' | 'finishedAt'>) => {
+  const runs = [...loadRuns(), { ...run, session: SESSION, finishedAt: Date.now() }];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(-MAX_RUNS)));
+};
+
+export const summarizeSessions = (runs: RunRecord[]): SessionSummary[] => {
+  const sessions = new Map<number, RunRecord[]>();
+  runs.forEach(run => sessions.set(run.session, [...(sessions.get(run.session) ?? []), run]));
+
+  return [...sessions.entries()].map(([session, sessionRuns]) => ({
+    session,
+    runs: sessionRuns.length,
+    averageTimeAlive: sessionRuns.reduce((total, run) => total + run.timeAlive, 0) / sessionRuns.length,
+    bestScore: Math.max(...sessionRuns.map(run => run.score))
+  }));
+};
+
+// How often each cause of death came up, most common first
+export const countDeathCauses = (runs: RunRecord[]) => {
+  const counts = new Map<string, number>();
+  runs.forEach(run => {
+    const cause = run.death ?? 'finished';
+    counts.set(cause, (counts.get(cause) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([cause, count]) => ({ cause, count }))
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_BINDINGS } from './controls';
+
+// A fresh copy of the settings module, reading `stored` from a stand-in localStorage
+const loadFrom = async (stored: unknown) => {
+  const storage = new Map<string, string>([['gravityRunnerSettings', JSON.stringify(stored)]]);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  vi.resetModules();
+  return { settings: await import('./settings'), storage };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('loadSettings', () => {
+  it('migrates a version 1 payload, keeping what was chosen', async () => {
+    const keyBindings = { ...DEFAULT_BINDINGS, flip: ['KeyF'] };
+    const { settings } = await loadFrom({ version: 1, muted: true, difficulty: 'hard', keyBindings });
+    expect(settings.loadSettings()).toMatchObject({ muted: true, difficulty: 'hard', keyBindings });
+  });
+
+  it('gives a version 1 payload from before key bindings the default keys', async () => {
+    const { settings } = await loadFrom({ version: 1, muted: true });
+    expect(settings.loadSettings()).toMatchObject({ muted: true, keyBindings: DEFAULT_BINDINGS });
+  });
+
+  it('saves migrated settings under the current version', async () => {
+    const { settings, storage } = await loadFrom({ version: 1, muted: true });
+    settings.updateSettings({ sfxVolume: 0.5 });
+    expect(JSON.parse(storage.get('gravityRunnerSettings')!)).toMatchObject({
+      version: settings.SETTINGS_VERSION,
+      muted: true,
+      sfxVolume: 0.5
+    });
+  });
+
+  it("starts over from the defaults on a version it doesn't know, such as a newer build's", async () => {
+    for (const version of [undefined, 0, 'two', 99]) {
+      const { settings } = await loadFrom({ version, muted: true });
+      expect(settings.loadSettings().muted).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { DEFAULT_BINDINGS, keyBindingsSchema } from "./controls";
+
+// User preferences, read live by the game. Stored with a version: older payloads are migrated up
+// to the current one, and any field that still doesn't parse falls back to its default.
+
+export const SETTINGS_VERSION = 2;
+
+const STORAGE_KEY = 'gravityRunnerSettings';
+
+const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+const volume = (fallback: number) => z.number().min(0).max(1).catch(fallback);
+
+const settingsSchema = z.object({
+  masterVolume: volume(0.8),
+  musicVolume: volume(0.6),
+  sfxVolume: volume(0.8),
+  muted: z.boolean().catch(false),
+  // Low drops particles and glow, medium keeps particles but not glow
+  effectsQuality: z.enum(['low', 'medium', 'high']).catch('high'),
+  reducedMotion: z.boolean().catch(prefersReducedMotion),
+  screenShake: z.boolean().catch(true),
+  hudLayout: z.enum(['full', 'compact', 'hidden']).catch('full'),
+  // Hold keeps flipping every time a flip finishes; tap flips once per press
+  controlScheme: z.enum(['hold', 'tap']).catch('hold'),
+  difficulty: z.enum(['easy', 'normal', 'hard']).catch('normal'),
+  keyBindings: keyBindingsSchema.catch(DEFAULT_BINDINGS)
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+export type HudLayout = Settings['hudLayout'];
+export type ControlScheme = Settings['controlScheme'];
+
+type StoredSettings = Record<string, unknown>;
+
+// Each step takes a payload from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  // Version 2 added key bindings, which the schema fills in with their defaults when missing
+  1: stored => stored
+};
+
+// Brings a stored payload up to SETTINGS_VERSION. One with no version we know, such as one
+// written by a newer build, starts over from the defaults.
+const migrate = (stored: unknown): StoredSettings => {
+  if (!stored || typeof stored !== 'object') return {};
+  const { version, ...values } = stored as StoredSettings;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > SETTINGS_VERSION) {
+    return {};
+  }
+  let migrated = values;
+  for (let from = version; from < SETTINGS_VERSION; from++) migrated = MIGRATIONS[from](migrated);
+  return migrated;
+};
+
+const readSettings = (): Settings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return settingsSchema.parse(migrate(stored));
+  } catch {
+    return settingsSchema.parse({});
+  }
+};
+
+let current: Settings | null = null;
+const listeners = new Set<() => void>();
+
+export const loadSettings = () => {
+  current ??= readSettings();
+  return current;
+};
+
+export const updateSettings = (changes: Partial<Settings>) => {
+  current = { ...loadSettings(), ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...current }));
+  listeners.forEach(listener => listener());
+};
+
+export const resetSettings = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  current = readSettings();
+  listeners.forEach(listener => listener());
+};
+
+// Calls `listener` whenever the settings change, including from another tab
+export const subscribeToSettings = (listener: () => void) => {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY) return;
+    current = readSettings();
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
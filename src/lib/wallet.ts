@@ -0,0 +1,19 @@
+// Orbs collected across all runs, kept alongside the high score as a plain number
+const WALLET_KEY = 'gravityRunnerOrbs';
+
+export const loadWallet = () => parseInt(localStorage.getItem(WALLET_KEY) || '0') || 0;
+
+// Adds a run's orbs to the wallet and returns the new balance
+export const depositOrbs = (amount: number) => {
+  const balance = loadWallet() + amount;
+  localStorage.setItem(WALLET_KEY, balance.toString());
+  return balance;
+};
+
+// Takes `amount` out of the wallet if it holds enough, returning whether it did
+export const spendOrbs = (amount: number) => {
+  const balance = loadWallet();
+  if (balance < amount) return false;
+  localStorage.setItem(WALLET_KEY, (balance - amount).toString());
+  return true;
+};
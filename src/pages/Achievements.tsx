@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Lock, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { Progress } from "@/components/ui/progress";
+import { ACHIEVEMENTS, getProgress } from "@/game/achievements";
+import { loadAchievements } from "@/lib/achievements";
+
+const Achievements = () => {
+  const [{ stats, unlocked }] = useState(loadAchievements);
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id]).length;
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Achievements
+        </h1>
+        <p className="text-center text-sm text-muted-foreground">
+          {unlockedCount} / {ACHIEVEMENTS.length} unlocked
+        </p>
+
+        <div className="space-y-2">
+          {ACHIEVEMENTS.map(achievement => {
+            const unlockedAt = unlocked[achievement.id];
+            const current = Math.min(achievement.goal, Math.floor(stats[achievement.stat]));
+
+            return (
+              <HoverCard key={achievement.id} openDelay={200}>
+                <HoverCardTrigger asChild>
+                  <Card className={`p-3 space-y-2 ${unlockedAt ? 'border-accent' : 'opacity-70'}`}>
+                    <div className="flex items-center gap-2 font-bold text-sm">
+                      {unlockedAt ? <Trophy className="h-4 w-4 text-accent" /> : <Lock className="h-4 w-4" />}
+                      {achievement.name}
+                    </div>
+                    <Progress value={getProgress(achievement, stats) * 100} className="h-2" />
+                  </Card>
+                </HoverCardTrigger>
+                <HoverCardContent className="space-y-1 text-sm">
+                  <div className="font-bold">{achievement.name}</div>
+                  <p className="text-muted-foreground">{achievement.description}</p>
+                  <div>{current.toLocaleString()} / {achievement.goal.toLocaleString()}</div>
+                  {unlockedAt && (
+                    <div className="text-xs text-accent">Unlocked {new Date(unlockedAt).toLocaleDateString()}</div>
+                  )}
+                </HoverCardContent>
+              </HoverCard>
+            );
+          })}
+        </div>
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Achievements;
@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Lock, Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CAMPAIGN, countStars } from "@/game/campaign";
+import { isLevelUnlocked, loadCampaignProgress } from "@/lib/campaign";
+
+const Campaign = () => {
+  const [progress] = useState(loadCampaignProgress);
+  const totalStars = CAMPAIGN.reduce((total, entry) => total + (progress[entry.id] ? countStars(progress[entry.id].stars) : 0), 0);
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Campaign
+        </h1>
+        <p className="text-center text-sm text-muted-foreground">
+          {totalStars} / {CAMPAIGN.length * 3} stars · clear a level to unlock the next
+        </p>
+
+        <div className="grid grid-cols-2 gap-2">
+          {CAMPAIGN.map((entry, i) => {
+            const unlocked = isLevelUnlocked(entry.id, progress);
+            const levelProgress = progress[entry.id];
+            const earned = levelProgress ? countStars(levelProgress.stars) : 0;
+
+            const card = (
+              <Card className={unlocked ? 'h-full hover:border-primary' : 'h-full opacity-50'}>
+                <CardHeader className="p-4">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    {i + 1}. {entry.level.name}
+                    {!unlocked && <Lock className="h-4 w-4" />}
+                  </CardTitle>
+                  <CardDescription className="flex items-center gap-1">
+                    {[0, 1, 2].map(star => (
+                      <Star key={star} className={`h-4 w-4 ${star < earned ? 'fill-accent text-accent' : ''}`} />
+                    ))}
+                    {levelProgress && <span className="ml-auto text-xs">{levelProgress.bestScore} pts</span>}
+                  </CardDescription>
+                </CardHeader>
+              </Card>
+            );
+
+            return unlocked ? (
+              <Link key={entry.id} to={`/campaign/${entry.id}`}>{card}</Link>
+            ) : (
+              <div key={entry.id} aria-disabled>{card}</div>
+            );
+          })}
+        </div>
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Campaign;
@@ -0,0 +1,38 @@
+import { useCallback, useState } from "react";
+import { Navigate, useParams } from "react-router-dom";
+import GravityRunner from "@/components/GravityRunner";
+import { CAMPAIGN } from "@/game/campaign";
+import type { Replay } from "@/game/replay";
+import { isLevelUnlocked, loadCampaignProgress, recordLevelRun } from "@/lib/campaign";
+import NotFound from "./NotFound";
+
+const CampaignPlay = () => {
+  const { levelId } = useParams();
+  const index = CAMPAIGN.findIndex(entry => entry.id === levelId);
+  const entry = CAMPAIGN[index];
+  const next = CAMPAIGN[index + 1];
+  const [progress, setProgress] = useState(loadCampaignProgress);
+
+  const handleRunEnd = useCallback((replay: Replay) => {
+    recordLevelRun(replay);
+    setProgress(loadCampaignProgress());
+  }, []);
+
+  if (!entry) return <NotFound />;
+  if (!isLevelUnlocked(entry.id, progress)) return <Navigate to="/campaign" replace />;
+
+  return (
+    <GravityRunner
+      key={entry.id}
+      mode="campaign"
+      level={entry}
+      nextPath={next && `/campaign/${next.id}`}
+      title={entry.level.name}
+      subtitle={`Level ${index + 1} of ${CAMPAIGN.length}`}
+      bestScore={progress[entry.id]?.bestScore ?? 0}
+      onRunEnd={handleRunEnd}
+    />
+  );
+};
+
+export default CampaignPlay;
@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getDailyKey, loadDailyResults, parseDailyKey } from "@/lib/daily";
+
+const Daily = () => {
+  const [results] = useState(loadDailyResults);
+  const todayKey = getDailyKey();
+  const today = results[todayKey];
+  const [selected, setSelected] = useState<Date | undefined>(() => new Date());
+  const selectedResult = selected ? results[getDailyKey(selected)] : undefined;
+
+  const playedDays = useMemo(() => Object.keys(results).map(parseDailyKey), [results]);
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Daily Challenge
+        </h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{todayKey}</CardTitle>
+            <CardDescription>
+              Everyone runs the same course today. Your first run is the one that counts; after that you can keep practising.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-2">
+            <div>
+              {today ? (
+                <>
+                  <div className="text-primary font-bold text-lg">{today.score} pts</div>
+                  <div className="text-xs text-muted-foreground">{today.distance}m · {today.timeAlive}s</div>
+                </>
+              ) : (
+                <div className="text-muted-foreground">Not attempted yet</div>
+              )}
+            </div>
+            <Button asChild variant="default" className="neon-glow">
+              <Link to="/daily/play">{today ? "Practice" : "Play"}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col items-center gap-2">
+            <Calendar
+              mode="single"
+              selected={selected}
+              onSelect={setSelected}
+              disabled={{ after: new Date() }}
+              modifiers={{ played: playedDays }}
+              modifiersClassNames={{ played: "text-primary font-bold underline underline-offset-4" }}
+            />
+            <div className="text-sm text-center min-h-10">
+              {selected && selectedResult ? (
+                <>
+                  <div className="font-bold">{selectedResult.score} pts · {selectedResult.distance}m · {selectedResult.timeAlive}s</div>
+                  <div className="text-xs text-muted-foreground">
+                    {selectedResult.practiceRuns} practice {selectedResult.practiceRuns === 1 ? "run" : "runs"}, best {selectedResult.practiceBest} pts
+                    {selectedResult.replayId && (
+                      <> · <Link to={`/replays/${selectedResult.replayId}`} className="underline-offset-4 hover:text-primary hover:underline">Replay</Link></>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <div className="text-muted-foreground">No result for this day</div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Daily;
@@ -0,0 +1,51 @@
+import { useCallback, useState } from "react";
+import GravityRunner from "@/components/GravityRunner";
+import type { Replay } from "@/game/replay";
+import {
+  getDailyKey,
+  getDailySeed,
+  loadDailyResults,
+  recordPracticeRun,
+  recordScoredAttempt,
+  startScoredAttempt
+} from "@/lib/daily";
+
+const DailyPlay = () => {
+  // Pinned on mount so a run that crosses midnight still counts for the day it started
+  const [dailyKey] = useState(() => getDailyKey());
+  const [result, setResult] = useState(() => loadDailyResults()[dailyKey]);
+  // Whether the run in progress is the scored one, fixed when it starts
+  const [scoredRun, setScoredRun] = useState(false);
+
+  const handleRunStart = useCallback(() => {
+    const scored = !loadDailyResults()[dailyKey];
+    setScoredRun(scored);
+    if (scored) startScoredAttempt(dailyKey);
+    setResult(loadDailyResults()[dailyKey]);
+  }, [dailyKey]);
+
+  const handleRunEnd = useCallback((replay: Replay, replayId: string) => {
+    if (scoredRun) {
+      recordScoredAttempt(dailyKey, replay, replayId);
+    } else {
+      recordPracticeRun(dailyKey, replay);
+    }
+    setResult(loadDailyResults()[dailyKey]);
+  }, [dailyKey, scoredRun]);
+
+  return (
+    <GravityRunner
+      mode="daily"
+      difficulty="normal"
+      seed={getDailySeed(dailyKey)}
+      title={`Daily ${dailyKey}`}
+      subtitle={result ? "Practice run – your scored attempt is locked in" : "Scored attempt – you only get one!"}
+      bestScore={result?.score ?? 0}
+      practice={!scoredRun}
+      onRunStart={handleRunStart}
+      onRunEnd={handleRunEnd}
+    />
+  );
+};
+
+export default DailyPlay;
@@ -0,0 +1,158 @@
+import { useState, type MouseEvent } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import OnlineLeaderboard from "@/components/OnlineLeaderboard";
+import { getBoard, loadLeaderboard, type LeaderboardBoard } from "@/lib/leaderboard";
+import type { Difficulty } from "@/game/types";
+
+const PAGE_SIZE = 10;
+
+const BOARDS: { value: LeaderboardBoard; label: string }[] = [
+  { value: 'endless', label: 'Endless' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'practice', label: 'Daily practice' },
+  { value: 'campaign', label: 'Campaign' }
+];
+
+const DIFFICULTIES: { value: Difficulty; label: string }[] = [
+  { value: 'easy', label: 'Easy' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'hard', label: 'Hard' }
+];
+
+const Leaderboard = () => {
+  const [allEntries] = useState(loadLeaderboard);
+  const [board, setBoard] = useState<LeaderboardBoard>('endless');
+  const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+  const [page, setPage] = useState(0);
+  const entries = allEntries.filter(entry => getBoard(entry) === board && entry.difficulty === difficulty);
+  const pageCount = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+  const visible = entries.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const goTo = (target: number) => (e: MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.min(pageCount - 1, Math.max(0, target)));
+  };
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Leaderboard
+        </h1>
+
+        <Tabs defaultValue="local">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="local">This device</TabsTrigger>
+            <TabsTrigger value="online">Online</TabsTrigger>
+          </TabsList>
+          <TabsContent value="local" className="space-y-4">
+            <div className="flex gap-4">
+              <div className="flex-1 space-y-1">
+                <Label>Board</Label>
+                <Select
+                  value={board}
+                  onValueChange={value => {
+                    setBoard(value as LeaderboardBoard);
+                    setPage(0);
+                  }}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {BOARDS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label>Difficulty</Label>
+                <Select
+                  value={difficulty}
+                  onValueChange={value => {
+                    setDifficulty(value as Difficulty);
+                    setPage(0);
+                  }}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DIFFICULTIES.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {entries.length === 0 ? (
+              <p className="text-center text-muted-foreground">No scores yet. Be the first!</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10">#</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead className="text-right">Distance</TableHead>
+                      <TableHead className="text-right">Time</TableHead>
+                      <TableHead className="hidden sm:table-cell">Date</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visible.map((entry, i) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-bold text-primary">{page * PAGE_SIZE + i + 1}</TableCell>
+                        <TableCell className="font-medium">{entry.name}</TableCell>
+                        <TableCell className="text-right font-bold">{entry.score}</TableCell>
+                        <TableCell className="text-right">{entry.distance}m</TableCell>
+                        <TableCell className="text-right">{entry.timeAlive}s</TableCell>
+                        <TableCell className="hidden sm:table-cell">{new Date(entry.date).toLocaleDateString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {pageCount > 1 && (
+                  <Pagination>
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious href="#" onClick={goTo(page - 1)} aria-disabled={page === 0} />
+                      </PaginationItem>
+                      {Array.from({ length: pageCount }, (_, i) => (
+                        <PaginationItem key={i}>
+                          <PaginationLink href="#" isActive={i === page} onClick={goTo(i)}>{i + 1}</PaginationLink>
+                        </PaginationItem>
+                      ))}
+                      <PaginationItem>
+                        <PaginationNext href="#" onClick={goTo(page + 1)} aria-disabled={page === pageCount - 1} />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            )}
+          </TabsContent>
+          <TabsContent value="online">
+            <OnlineLeaderboard />
+          </TabsContent>
+        </Tabs>
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,14 @@
+import { useParams } from "react-router-dom";
+import ReplayViewer from "@/components/ReplayViewer";
+import { getReplay } from "@/lib/replays";
+import NotFound from "./NotFound";
+
+const Replay = () => {
+  const { id } = useParams();
+  const replay = id ? getReplay(id) : undefined;
+
+  if (!replay) return <NotFound />;
+  return <ReplayViewer key={replay.id} replay={replay} />;
+};
+
+export default Replay;
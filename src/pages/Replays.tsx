@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { getCampaignLevel } from "@/game/campaign";
+import { deleteReplay, loadReplays } from "@/lib/replays";
+
+const Replays = () => {
+  const [replays, setReplays] = useState(loadReplays);
+
+  const remove = (id: string) => {
+    deleteReplay(id);
+    setReplays(loadReplays());
+  };
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent mb-4">
+          Replays
+        </h1>
+
+        {replays.length === 0 && (
+          <p className="text-center text-muted-foreground mb-4">No runs recorded yet. Go play one!</p>
+        )}
+
+        <div className="space-y-2 mb-4">
+          {replays.map(replay => (
+            <Card key={replay.id} className="flex items-center gap-2 p-3">
+              <Link to={`/replays/${replay.id}`} className="flex-1 min-w-0 hover:text-primary">
+                <div className="font-bold">
+                  {replay.score} pts · {replay.distance}m · {replay.timeAlive}s
+                  {replay.mode === "daily" && <span className="ml-2 text-xs text-accent">Daily</span>}
+                  {replay.levelId && (
+                    <span className="ml-2 text-xs text-accent">{getCampaignLevel(replay.levelId)?.level.name ?? "Campaign"}</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">{new Date(replay.recordedAt).toLocaleString()}</div>
+              </Link>
+              <Button size="icon" variant="ghost" onClick={() => remove(replay.id)} aria-label="Delete replay">
+                <Trash2 />
+              </Button>
+            </Card>
+          ))}
+        </div>
+
+        <div className="text-center">
+          <Button asChild variant="default" className="neon-glow">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replays;
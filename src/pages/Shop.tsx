@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import CosmeticPreview from "@/components/CosmeticPreview";
+import { getSkin, getTrail, SKINS, TRAILS } from "@/game/cosmetics";
+import { equipCosmetic, isOwned, loadCosmetics, purchaseCosmetic, type CosmeticKind } from "@/lib/cosmetics";
+import { loadWallet } from "@/lib/wallet";
+
+const Shop = () => {
+  const [cosmetics, setCosmetics] = useState(loadCosmetics);
+  const [wallet, setWallet] = useState(loadWallet);
+  const equippedSkin = getSkin(cosmetics.equipped.skin);
+  const equippedTrail = getTrail(cosmetics.equipped.trail);
+
+  const buy = (kind: CosmeticKind, id: string, name: string) => {
+    const next = purchaseCosmetic(kind, id);
+    if (!next) {
+      toast.error("Not enough orbs");
+      return;
+    }
+    setCosmetics(equipCosmetic(kind, id));
+    setWallet(loadWallet());
+    toast.success(`Unlocked ${name}!`);
+  };
+
+  const sections = [
+    { kind: 'skin' as const, title: 'Skins', items: SKINS },
+    { kind: 'trail' as const, title: 'Flip Trails', items: TRAILS }
+  ];
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Shop
+        </h1>
+        <p className="text-center text-accent font-bold">{wallet} orbs</p>
+
+        {sections.map(({ kind, title, items }) => (
+          <section key={kind} className="space-y-2">
+            <h2 className="text-lg font-bold text-primary">{title}</h2>
+            <Carousel opts={{ align: 'start' }} className="mx-10">
+              <CarouselContent>
+                {items.map(item => {
+                  const owned = isOwned(cosmetics, item.id);
+                  const equipped = cosmetics.equipped[kind] === item.id;
+                  return (
+                    <CarouselItem key={item.id} className="basis-1/2">
+                      <Card className={equipped ? 'border-primary' : undefined}>
+                        <CardContent className="flex flex-col items-center gap-2 p-3">
+                          <CosmeticPreview
+                            skin={kind === 'skin' ? getSkin(item.id) : equippedSkin}
+                            trail={kind === 'trail' ? getTrail(item.id) : equippedTrail}
+                          />
+                          <div className="font-bold text-sm">{item.name}</div>
+                          {equipped ? (
+                            <Button size="sm" variant="outline" disabled>Equipped</Button>
+                          ) : owned ? (
+                            <Button size="sm" variant="outline" onClick={() => setCosmetics(equipCosmetic(kind, item.id))}>
+                              Equip
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              className="neon-glow"
+                              disabled={wallet < item.price}
+                              onClick={() => buy(kind, item.id, item.name)}
+                            >
+                              {item.price} orbs
+                            </Button>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </CarouselItem>
+                  );
+                })}
+              </CarouselContent>
+              <CarouselPrevious />
+              <CarouselNext />
+            </Carousel>
+          </section>
+        ))}
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Shop;
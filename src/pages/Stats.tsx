@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { countDeathCauses, loadRuns, summarizeSessions } from "@/lib/runs";
+
+// Runs averaged into the trend line on the score chart
+const TREND_WINDOW = 10;
+
+const scoreConfig = {
+  score: { label: "Score", color: "hsl(var(--primary))" },
+  trend: { label: `Last ${TREND_WINDOW} avg`, color: "hsl(var(--accent))" }
+} satisfies ChartConfig;
+
+const deathConfig = {
+  count: { label: "Runs", color: "hsl(var(--destructive))" }
+} satisfies ChartConfig;
+
+const sessionConfig = {
+  averageTimeAlive: { label: "Avg survival (s)", color: "hsl(var(--accent))" }
+} satisfies ChartConfig;
+
+const Stats = () => {
+  const [runs] = useState(loadRuns);
+
+  const scores = useMemo(() => runs.map((run, i) => {
+    const recent = runs.slice(Math.max(0, i + 1 - TREND_WINDOW), i + 1);
+    return {
+      run: i + 1,
+      score: run.score,
+      trend: Math.round(recent.reduce((total, entry) => total + entry.score, 0) / recent.length)
+    };
+  }), [runs]);
+  const deaths = useMemo(() => countDeathCauses(runs), [runs]);
+  const sessions = useMemo(() => summarizeSessions(runs).map(session => ({
+    ...session,
+    label: new Date(session.session).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' }),
+    averageTimeAlive: Math.round(session.averageTimeAlive * 10) / 10
+  })), [runs]);
+
+  const totalTime = runs.reduce((total, run) => total + run.timeAlive, 0);
+  const totalFlips = runs.reduce((total, run) => total + run.flips, 0);
+  const bestScore = runs.reduce((best, run) => Math.max(best, run.score), 0);
+
+  return (
+    <div className="min-h-screen game-bg p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <h1 className="text-2xl sm:text-4xl font-bold text-center bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Stats
+        </h1>
+
+        {runs.length === 0 ? (
+          <p className="text-center text-muted-foreground">No finished runs yet. Go play a few!</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2 text-center text-xs">
+              <div><div className="text-muted-foreground">Runs</div><div className="font-bold text-lg">{runs.length}</div></div>
+              <div><div className="text-muted-foreground">Best</div><div className="font-bold text-lg">{bestScore}</div></div>
+              <div><div className="text-muted-foreground">Played</div><div className="font-bold text-lg">{Math.round(totalTime / 60)}m</div></div>
+              <div><div className="text-muted-foreground">Flips</div><div className="font-bold text-lg">{totalFlips}</div></div>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Score over time</CardTitle>
+                <CardDescription>Every run, with the average of the last {TREND_WINDOW}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={scoreConfig}>
+                  <LineChart data={scores}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                    <YAxis width={32} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Line dataKey="score" stroke="var(--color-score)" strokeOpacity={0.5} dot={false} />
+                    <Line dataKey="trend" stroke="var(--color-trend)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Causes of death</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={deathConfig}>
+                  <BarChart data={deaths} layout="vertical">
+                    <XAxis type="number" hide />
+                    <YAxis type="category" dataKey="cause" width={80} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Survival per session</CardTitle>
+                <CardDescription>Average seconds alive each time you sat down to play</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={sessionConfig}>
+                  <BarChart data={sessions}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis width={32} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="averageTimeAlive" fill="var(--color-averageTimeAlive)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <div className="text-center">
+          <Button asChild variant="outline">
+            <Link to="/">Back to Game</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Stats;
@@ -8,6 +8,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // The leaderboard stand-in from `npm run server`
+    proxy: {
+      "/api": "http://localhost:8787",
+    },
   },
   plugins: [
     react(),